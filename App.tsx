@@ -4,355 +4,739 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateMemory } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import ReactCrop, { type PercentCrop } from 'react-image-crop';
+import { generateEditedImage, generateProductPlacement, generateFilteredImage, generateAdjustedImage, generateMemory, generateVariations, detectObjects, planStoryboard, generateStoryboardPanel } from './services/geminiService';
+import { isAbortError } from './services/requestPolicy';
+import { toGenerationError } from './services/generationErrors';
+import { configuredProviderId, createImageProvider, providerRequiresApiKey, type ImageProvider } from './services/imageProvider';
+import { loadUsageBudget, isBudgetReached, formatCost } from './services/usageLedger';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
 import AdjustmentPanel from './components/AdjustmentPanel';
 import CropPanel from './components/CropPanel';
-import { UndoIcon, RedoIcon, EyeIcon } from './components/icons';
+import { UndoIcon, RedoIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
 import ApiKeyModal from './components/ApiKeyModal';
+import ErrorNotice from './components/ErrorNotice';
+import ExportDialog from './components/ExportDialog';
+import DebugModal from './components/DebugModal';
+import ProductSelector from './components/ProductSelector';
+import ObjectCard from './components/ObjectCard';
+import SlideshowDialog, { type SlideSource } from './components/SlideshowDialog';
+import ToolOptions from './components/ToolOptions';
+import MaskCanvas, { type MaskCanvasHandle } from './components/MaskCanvas';
+import { saveSession, loadSession } from './services/sessionStore';
+import { getNode, getRootNode, getChildren, getPathToNode } from './services/historyTree';
+import HistoryPanel, { operationLabels } from './components/HistoryPanel';
+import EditorCanvas from './components/EditorCanvas';
+import CompareView from './components/CompareView';
+import CompareControls, { type CompareTarget } from './components/CompareControls';
+import LivePreview from './components/LivePreview';
+import VariationCountPicker from './components/VariationCountPicker';
+import VariationSheet from './components/VariationSheet';
+import StoryboardView from './components/StoryboardView';
+import { DEFAULT_TONE_SETTINGS, applyToneAdjustments, createToneRenderer, describeToneSettings, isNeutralTone } from './services/toneAdjustments';
+import { applyLut, createLutRenderer } from './services/cubeLut';
+import { prepareUploadedImage } from './services/imageMetadata';
+import { dataURLtoFile } from './services/imageFiles';
+import { DEFAULT_IMAGE_TRANSFORM, isIdentityTransform, renderTransformedImage, straightenScale } from './services/imageTransform';
+import type { RetouchTool, CompareMode, EditOperation, HistoryNode, SessionInfo, ToneSettings, LutSelection, SubjectSelection, MemorySubject, GenerationError, ImageMetadata, ImageTransform, Storyboard, Product, DetectedObject } from './types';
 
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
+// Wraps a file in a new history node with a unique id
+const createHistoryNode = (file: File, operation: EditOperation, parentId: string | null, prompt: string | null = null): HistoryNode => ({
+    id: crypto.randomUUID(),
+    parentId,
+    file,
+    operation,
+    prompt,
+    createdAt: Date.now(),
+});
+
+const createSessionInfo = (name: string, metadata: ImageMetadata | null = null): SessionInfo => ({
+    id: crypto.randomUUID(),
+    name: name.trim().slice(0, 60) || 'Untitled project',
+    createdAt: Date.now(),
+    metadata,
+});
+
+// Each person's primary photo goes first, followed by the rest of their photos
+const toMemorySubjects = (selections: SubjectSelection[]): MemorySubject[] =>
+    selections.map(({ name, profile }) => {
+        const { photos, primaryPhotoIndex } = profile;
+        const orderedPhotos = [photos[primaryPhotoIndex], ...photos.filter((_, i) => i !== primaryPhotoIndex)];
+        return { name, images: orderedPhotos.map(photo => photo.image) };
+    });
+
+// Names generated images, numbering them when a request produced several
+const resultsToFiles = (imageUrls: string[], filenamePrefix: string): File[] => {
+    const timestamp = Date.now();
+    return imageUrls.map((url, index) =>
+        dataURLtoFile(url, imageUrls.length === 1 ? `${filenamePrefix}-${timestamp}.png` : `${filenamePrefix}-${timestamp}-${index + 1}.png`));
+};
+
+// Candidates from a multi-variation request, waiting on the contact sheet
+interface PendingVariations {
+    files: File[];
+    operation: EditOperation;
+    prompt: string | null;
+    parentId: string | null; // null for a new memory, which starts a new project
+}
+
+// A failure shown above the editor, with the ways to recover from it
+interface ErrorState {
+    title: string | null;
+    error: GenerationError;
+    retry?: () => void;
+    rephrase?: { prompt: string; run: (prompt: string) => void };
+    updateApiKey?: () => void;
 }
 
-type Tab = 'retouch' | 'adjust' | 'filters' | 'crop';
+type Tab = 'retouch' | 'product' | 'adjust' | 'filters' | 'crop';
 
 const App: React.FC = () => {
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [history, setHistory] = useState<HistoryNode[]>([]);
+  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isDebugOpen, setIsDebugOpen] = useState<boolean>(false);
+  const [slideshow, setSlideshow] = useState<{ sources: SlideSource[], initialSourceIds: string[] } | null>(null);
+  // For each node, the child most recently visited from it, so redo follows the branch you came from
+  const lastVisitedChildRef = useRef<Record<string, string>>({});
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorState | null>(null);
   const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [productInstructions, setProductInstructions] = useState<string>('');
+  // Kept with the image it was made from, so it's only shown while that image is current
+  const [detection, setDetection] = useState<{ image: File, objects: DetectedObject[] } | null>(null);
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
+  const [retouchTool, setRetouchTool] = useState<RetouchTool>('point');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null);
+  const maskCanvasRef = useRef<MaskCanvasHandle>(null);
+  const [toneSettings, setToneSettings] = useState<ToneSettings>(DEFAULT_TONE_SETTINGS);
+  const [lutSelection, setLutSelection] = useState<LutSelection | null>(null);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [pendingVariations, setPendingVariations] = useState<PendingVariations | null>(null);
+  const [storyboard, setStoryboard] = useState<Storyboard | null>(null);
+  const [generatingPanelId, setGeneratingPanelId] = useState<string | null>(null);
+  // Read through a ref so panel generation picks up edits made while earlier panels were generating
+  const storyboardRef = useRef(storyboard);
+  storyboardRef.current = storyboard;
+  const lutParams = useMemo(() => lutSelection && { lut: lutSelection.preset.lut, intensity: lutSelection.intensity }, [lutSelection]);
   
-  const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  // Crops are kept as percentages so they map onto the full-resolution image, whatever its display size
+  const [crop, setCrop] = useState<PercentCrop>();
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
-  const [isComparing, setIsComparing] = useState<boolean>(false);
-  const imgRef = useRef<HTMLImageElement>(null);
+  const [cropTransform, setCropTransform] = useState<ImageTransform>(DEFAULT_IMAGE_TRANSFORM);
+  const [cropPreviewUrl, setCropPreviewUrl] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState<boolean>(false); // press-and-hold compare
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [compareTarget, setCompareTarget] = useState<CompareTarget>('original');
 
   const [apiKey, setApiKey] = useState<string | null>(() => sessionStorage.getItem('user-api-key'));
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState<boolean>(false);
   const [pendingAction, setPendingAction] = useState<((apiKey: string) => void) | null>(null);
+  // The soft budget limit the user last agreed to go past, so they're only warned once per limit
+  const softBudgetWarnedAtRef = useRef<number | null>(null);
+  // The in-flight AI request, if any. Local tone and LUT steps can't be cancelled and never set this.
+  const [activeRequest, setActiveRequest] = useState<AbortController | null>(null);
+
+  const beginRequest = useCallback((): AbortController => {
+    const controller = new AbortController();
+    setActiveRequest(controller);
+    return controller;
+  }, []);
+
+  const finishRequest = useCallback((controller: AbortController) => {
+    setActiveRequest(current => current === controller ? null : current);
+  }, []);
+
+  // Runs an AI action on the configured provider, asking for an API key first when the provider needs one.
+  const withImageProvider = useCallback((action: (provider: ImageProvider) => void) => {
+    // A hard budget stops new generations; a soft one warns once each time its limit is reached
+    const budget = loadUsageBudget();
+    if (!isBudgetReached(budget)) {
+        softBudgetWarnedAtRef.current = null;
+    } else {
+        if (budget.mode === 'hard') {
+            setError({ title: null, error: { kind: 'budget', message: `You've reached this session's budget of ${formatCost(budget.limitUsd)}. Raise or turn off the budget from the usage meter in the header to keep generating.` } });
+            return;
+        }
+        if (softBudgetWarnedAtRef.current !== budget.limitUsd) {
+            if (!window.confirm(`You've reached this session's budget of ${formatCost(budget.limitUsd)}. Generate anyway?`)) return;
+            softBudgetWarnedAtRef.current = budget.limitUsd;
+        }
+    }
+
+    if (!providerRequiresApiKey(configuredProviderId)) {
+        action(createImageProvider(configuredProviderId, null));
+    } else if (!apiKey) {
+        setPendingAction(() => (key: string) => action(createImageProvider(configuredProviderId, key)));
+        setIsApiKeyModalOpen(true);
+    } else {
+        action(createImageProvider(configuredProviderId, apiKey));
+    }
+  }, [apiKey]);
 
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  const showInputError = useCallback((message: string) => {
+    setError({ title: null, error: { kind: 'invalid-input', message } });
+  }, []);
+
+  const reportFailure = useCallback((title: string, err: unknown) => {
+    console.error(err);
+    setError({ title, error: toGenerationError(err) });
+  }, []);
+
+  // Reports a failed AI action. Auth failures drop the stored key and ask for a new one straight away.
+  const reportGenerationFailure = useCallback((
+    title: string,
+    err: unknown,
+    action: (provider: ImageProvider) => void,
+    rephrase?: ErrorState['rephrase'],
+  ) => {
+    console.error(err);
+    const detail = toGenerationError(err);
+    const promptForKey = () => {
+        setPendingAction(() => (key: string) => action(createImageProvider(configuredProviderId, key)));
+        setIsApiKeyModalOpen(true);
+    };
+    if (detail.kind === 'auth' && providerRequiresApiKey(configuredProviderId)) {
+        setApiKey(null);
+        sessionStorage.removeItem('user-api-key');
+        promptForKey();
+    }
+    setError({ title, error: detail, retry: () => withImageProvider(action), rephrase, updateApiKey: promptForKey });
+  }, [withImageProvider]);
+
+  // Runs an AI request with the shared loading state, cancellation and failure reporting.
+  // A request the user cancelled ends quietly.
+  const runAiRequest = useCallback((
+    title: string,
+    run: (provider: ImageProvider, signal: AbortSignal) => Promise<void>,
+    rephrase?: ErrorState['rephrase'],
+  ) => {
+    const action = async (provider: ImageProvider) => {
+        const request = beginRequest();
+        setIsLoading(true);
+        setError(null);
+        try {
+            await run(provider, request.signal);
+        } catch (err) {
+            if (!isAbortError(err)) {
+                reportGenerationFailure(title, err, action, rephrase);
+            }
+        } finally {
+            finishRequest(request);
+            setIsLoading(false);
+        }
+    };
+
+    withImageProvider(action);
+  }, [beginRequest, finishRequest, reportGenerationFailure, withImageProvider]);
+
+  const currentNode = getNode(history, currentNodeId);
+  const currentImage = currentNode?.file ?? null;
+  // The step the current image is compared with; a step that no longer exists falls back to the original
+  const compareNode = compareTarget === 'previous'
+    ? getNode(history, currentNode?.parentId ?? null)
+    : (compareTarget !== 'original' && getNode(history, compareTarget)) || getRootNode(history);
+  const canCompare = !!compareNode && compareNode.id !== currentNodeId;
+  const compareImage = canCompare ? compareNode.file : null;
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
-  const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
+  const [compareImageUrl, setCompareImageUrl] = useState<string | null>(null);
 
   // Effect to create and revoke object URLs safely for the current image
   useEffect(() => {
     if (currentImage) {
       const url = URL.createObjectURL(currentImage);
       setCurrentImageUrl(url);
-      return () => URL.revokeObjectURL(url);
+      // Measured here rather than on the <img> so the editor can lay out on any tab
+      const image = new Image();
+      image.onload = () => setImageSize({ width: image.naturalWidth, height: image.naturalHeight });
+      image.src = url;
+      return () => {
+        image.onload = null;
+        URL.revokeObjectURL(url);
+      };
     } else {
       setCurrentImageUrl(null);
     }
   }, [currentImage]);
   
-  // Effect to create and revoke object URLs safely for the original image
+  // Effect to create and revoke object URLs safely for the image being compared against
   useEffect(() => {
-    if (originalImage) {
-      const url = URL.createObjectURL(originalImage);
-      setOriginalImageUrl(url);
+    if (compareImage) {
+      const url = URL.createObjectURL(compareImage);
+      setCompareImageUrl(url);
       return () => URL.revokeObjectURL(url);
     } else {
-      setOriginalImageUrl(null);
+      setCompareImageUrl(null);
     }
-  }, [originalImage]);
+  }, [compareImage]);
 
 
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  // Local previews always start from neutral on a new image
+  useEffect(() => {
+    setToneSettings(DEFAULT_TONE_SETTINGS);
+    setLutSelection(null);
+    setCropTransform(DEFAULT_IMAGE_TRANSFORM);
+  }, [currentImage]);
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Renders the quarter turns and flips at preview size for the crop tab
+  const { quarterTurns, flipHorizontal, flipVertical } = cropTransform;
+  useEffect(() => {
+    if (activeTab !== 'crop' || !currentImage || (quarterTurns === 0 && !flipHorizontal && !flipVertical)) {
+      setCropPreviewUrl(null);
+      return;
+    }
+    let url: string | null = null;
+    let isCancelled = false;
+    renderTransformedImage(currentImage, { quarterTurns, straighten: 0, flipHorizontal, flipVertical }, { maxLongEdge: 1600 })
+      .then(file => {
+        if (isCancelled) return;
+        url = URL.createObjectURL(file);
+        setCropPreviewUrl(url);
+      })
+      .catch(e => console.error("Failed to render the crop preview", e));
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [activeTab, currentImage, quarterTurns, flipHorizontal, flipVertical]);
+
+  // Persist the session whenever its history changes so a refresh never loses work
+  useEffect(() => {
+    if (!session || !currentNodeId) return;
+    saveSession(session, history, currentNodeId).catch(e => console.error("Failed to save session", e));
+  }, [session, history, currentNodeId]);
+
+  useEffect(() => {
+    const path = getPathToNode(history, currentNodeId);
+    for (let i = 1; i < path.length; i++) {
+      lastVisitedChildRef.current[path[i - 1].id] = path[i].id;
+    }
+  }, [history, currentNodeId]);
+
+  const redoNode = currentNode
+    ? getNode(history, lastVisitedChildRef.current[currentNode.id] ?? null) ?? getChildren(history, currentNode.id).at(-1) ?? null
+    : null;
+
+  const detectedObjects = detection && detection.image === currentImage ? detection.objects : null;
+  const selectedObject = detectedObjects?.find(object => object.id === selectedObjectId) ?? null;
+
+  const canUndo = !!currentNode?.parentId;
+  const hasEditRegion = retouchTool === 'point' ? !!editHotspot : hasMask;
+  // Point retouching and product placement both target a clicked point on the image
+  const isPickingPoint = activeTab === 'product' || (activeTab === 'retouch' && retouchTool === 'point');
+  const canRedo = !!redoNode;
+
+  const addImageToHistory = useCallback((newImageFile: File, operation: EditOperation, prompt: string | null = null) => {
+    // New edits branch off the current node; nothing after it is discarded
+    const newNode = createHistoryNode(newImageFile, operation, currentNodeId, prompt);
+    setHistory(current => [...current, newNode]);
+    setCurrentNodeId(newNode.id);
     // Reset transient states after an action
     setCrop(undefined);
     setCompletedCrop(undefined);
-  }, [history, historyIndex]);
+  }, [currentNodeId]);
 
-  const handleImageUpload = useCallback((file: File) => {
+  // A single result goes straight into history; several are offered on the contact sheet first
+  const presentResults = useCallback((files: File[], operation: EditOperation, prompt: string) => {
+    if (files.length === 1) {
+      addImageToHistory(files[0], operation, prompt);
+    } else {
+      setPendingVariations({ files, operation, prompt, parentId: currentNodeId });
+    }
+  }, [addImageToHistory, currentNodeId]);
+
+  const startMemoryProject = useCallback((file: File, prompt: string) => {
+    setSession(createSessionInfo(prompt));
+    const rootNode = createHistoryNode(file, 'memory', null, prompt);
+    setHistory([rootNode]);
+    setCurrentNodeId(rootNode.id);
+    lastVisitedChildRef.current = {};
+    setEditHotspot(null);
+    setActiveTab('retouch');
+  }, []);
+
+  const handleImageUpload = useCallback(async (upload: File) => {
     setError(null);
-    setHistory([file]);
-    setHistoryIndex(0);
+    // Rotates phone photos upright and drops their EXIF, so neither the editor nor the model sees it
+    let prepared: { file: File; metadata: ImageMetadata | null };
+    try {
+      prepared = await prepareUploadedImage(upload);
+    } catch (err) {
+      reportFailure('Failed to read the photo.', err);
+      return;
+    }
+    const { file, metadata } = prepared;
+    setSession(createSessionInfo(upload.name.replace(/\.[^.]+$/, ''), metadata));
+    const rootNode = createHistoryNode(file, 'upload', null);
+    setHistory([rootNode]);
+    setCurrentNodeId(rootNode.id);
     setEditHotspot(null);
-    setDisplayHotspot(null);
     setActiveTab('retouch');
     setCrop(undefined);
     setCompletedCrop(undefined);
-  }, []);
+  }, [reportFailure]);
+
+  const handleCreateMemory = useCallback(async (subjectSelections: SubjectSelection[], prompt: string) => {
+    runAiRequest('Failed to create memory.', async (provider, signal) => {
+        const subjects = toMemorySubjects(subjectSelections);
+        const memoryImageUrls = await generateVariations(variationCount, () => generateMemory(provider, subjects, prompt, { signal }));
+        const files = resultsToFiles(memoryImageUrls, 'memory');
+        if (files.length === 1) {
+            startMemoryProject(files[0], prompt);
+        } else {
+            setPendingVariations({ files, operation: 'memory', prompt, parentId: null });
+        }
+    }, { prompt, run: newPrompt => handleCreateMemory(subjectSelections, newPrompt) });
+  }, [variationCount, startMemoryProject, runAiRequest]);
+
+  const handlePlanStoryboard = useCallback((subjectSelections: SubjectSelection[], story: string, sceneCount: number, style: string) => {
+    runAiRequest('Failed to plan the storyboard.', async (provider, signal) => {
+        const scenes = await planStoryboard(provider, story, subjectSelections.map(subject => subject.name), sceneCount, { signal });
+        setStoryboard({
+            story,
+            style,
+            subjects: subjectSelections,
+            panels: scenes.map(scene => ({ id: crypto.randomUUID(), ...scene, image: null })),
+        });
+    });
+  }, [runAiRequest]);
+
+  // Generates the given panels one at a time, or every panel without an image when panelIds is null.
+  // Later panels are given an earlier one to match, which keeps the set looking consistent.
+  const handleGenerateStoryboardPanels = useCallback((panelIds: string[] | null) => {
+    runAiRequest('Failed to generate a storyboard panel.', async (provider, signal) => {
+        const board = storyboardRef.current;
+        if (!board) return;
+        const targetIds = panelIds ?? board.panels.filter(panel => !panel.image).map(panel => panel.id);
+        let styleReference = board.panels.find(panel => panel.image && !targetIds.includes(panel.id))?.image ?? null;
 
-  const handleCreateMemory = useCallback(async (faceDataUrl: string, prompt: string) => {
-    const action = async (key: string) => {
-        setIsLoading(true);
-        setError(null);
         try {
-            const faceFile = dataURLtoFile(faceDataUrl, `face-${Date.now()}.png`);
-            const memoryImageUrl = await generateMemory(key, faceFile, prompt);
-            const newImageFile = dataURLtoFile(memoryImageUrl, `memory-${Date.now()}.png`);
-            setHistory([newImageFile]);
-            setHistoryIndex(0);
-            setEditHotspot(null);
-            setDisplayHotspot(null);
-            setActiveTab('retouch');
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`Failed to create memory. ${errorMessage}`);
-            console.error(err);
+            const subjects = toMemorySubjects(board.subjects);
+            for (const id of targetIds) {
+                const current = storyboardRef.current;
+                const panel = current?.panels.find(p => p.id === id);
+                if (!current || !panel) continue;
+                setGeneratingPanelId(id);
+                const imageUrl = await generateStoryboardPanel(provider, subjects, panel.prompt, current.style, styleReference, { signal });
+                const [image] = resultsToFiles([imageUrl], 'panel');
+                setStoryboard(latest => latest && {
+                    ...latest,
+                    panels: latest.panels.map(p => p.id === id ? { ...p, image } : p),
+                });
+                styleReference ??= image;
+            }
         } finally {
-            setIsLoading(false);
+            setGeneratingPanelId(null);
         }
-    };
+    });
+  }, [runAiRequest]);
 
-    if (!apiKey) {
-        setPendingAction(() => action);
-        setIsApiKeyModalOpen(true);
-    } else {
-        action(apiKey);
-    }
-  }, [apiKey]);
-
-  const handleGenerate = useCallback(async () => {
+  const handleGenerate = useCallback(async (promptOverride?: string) => {
+    const editPrompt = promptOverride ?? prompt;
     if (!currentImage) {
-      setError('No image loaded to edit.');
+      showInputError('No image loaded to edit.');
       return;
     }
     
-    if (!prompt.trim()) {
-        setError('Please enter a description for your edit.');
+    if (!editPrompt.trim()) {
+        showInputError('Please enter a description for your edit.');
         return;
     }
 
-    if (!editHotspot) {
-        setError('Please click on the image to select an area to edit.');
+    const isMasking = retouchTool !== 'point';
+
+    if (isMasking && !hasMask) {
+        showInputError('Please paint over the area of the image you want to edit.');
         return;
     }
 
-    const action = async (key: string) => {
-        setIsLoading(true);
-        setError(null);
-        try {
-            const editedImageUrl = await generateEditedImage(key, currentImage, prompt, editHotspot);
-            const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-            addImageToHistory(newImageFile);
-            setEditHotspot(null);
-            setDisplayHotspot(null);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`Failed to generate the image. ${errorMessage}`);
-            console.error(err);
-        } finally {
-            setIsLoading(false);
-        }
-    };
+    if (!isMasking && !editHotspot) {
+        showInputError('Please click on the image to select an area to edit.');
+        return;
+    }
 
-    if (!apiKey) {
-        setPendingAction(() => action);
-        setIsApiKeyModalOpen(true);
-    } else {
-        action(apiKey);
+    // Snapshot the mask now so later strokes can't change an in-flight request
+    const maskFile = isMasking ? await maskCanvasRef.current?.exportMask() ?? null : null;
+    if (isMasking && !maskFile) {
+        showInputError('Could not read the painted mask. Please try painting the area again.');
+        return;
     }
-  }, [currentImage, prompt, editHotspot, addImageToHistory, apiKey]);
+
+    const targetLabel = isMasking ? selectedObject?.label ?? null : null;
+
+    runAiRequest('Failed to generate the image.', async (provider, signal) => {
+        const editedImageUrls = await generateVariations(variationCount, () => generateEditedImage(provider, currentImage, editPrompt, isMasking ? null : editHotspot, maskFile, targetLabel, { signal }));
+        presentResults(resultsToFiles(editedImageUrls, 'edited'), 'retouch', editPrompt);
+        setEditHotspot(null);
+    }, { prompt: editPrompt, run: newPrompt => { setPrompt(newPrompt); handleGenerate(newPrompt); } });
+  }, [currentImage, prompt, editHotspot, retouchTool, hasMask, selectedObject, variationCount, presentResults, showInputError, runAiRequest]);
   
+  const handleAnalyzeImage = useCallback(() => {
+    if (!currentImage || !imageSize) {
+      showInputError('No image loaded to analyze.');
+      return;
+    }
+    const image = currentImage;
+    const size = imageSize;
+
+    runAiRequest('Failed to analyze the image.', async (provider, signal) => {
+        const objects = await detectObjects(provider, image, size, { signal });
+        setDetection({ image, objects });
+        setSelectedObjectId(null);
+    });
+  }, [currentImage, imageSize, showInputError, runAiRequest]);
+
+  // Masks exactly the object's box, so the next prompt only changes that object
+  const handleSelectObject = (object: DetectedObject) => {
+    if (retouchTool === 'point') setRetouchTool('brush');
+    setEditHotspot(null);
+    setSelectedObjectId(object.id);
+    maskCanvasRef.current?.selectBox(object.box);
+  };
+
+  const handlePlaceProduct = useCallback(() => {
+    if (!currentImage) {
+      showInputError('No image loaded to place a product in.');
+      return;
+    }
+    if (!selectedProduct) {
+      showInputError('Please pick a product to place.');
+      return;
+    }
+    if (!editHotspot) {
+      showInputError('Please click on the image where the product should go.');
+      return;
+    }
+    const product = selectedProduct;
+    const hotspot = editHotspot;
+    const instructions = productInstructions.trim();
+
+    runAiRequest('Failed to place the product.', async (provider, signal) => {
+        const placedImageUrls = await generateVariations(variationCount, () => generateProductPlacement(provider, currentImage, product, hotspot, instructions, { signal }));
+        presentResults(resultsToFiles(placedImageUrls, 'product'), 'product', instructions ? `${product.name}: ${instructions}` : product.name);
+        setEditHotspot(null);
+    });
+  }, [currentImage, selectedProduct, editHotspot, productInstructions, variationCount, presentResults, showInputError, runAiRequest]);
+
   const handleApplyFilter = useCallback(async (filterPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply a filter to.');
+      showInputError('No image loaded to apply a filter to.');
       return;
     }
     
-    const action = async (key: string) => {
-        setIsLoading(true);
-        setError(null);
-        try {
-            const filteredImageUrl = await generateFilteredImage(key, currentImage, filterPrompt);
-            const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-            addImageToHistory(newImageFile);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`Failed to apply the filter. ${errorMessage}`);
-            console.error(err);
-        } finally {
-            setIsLoading(false);
-        }
-    };
-    
-    if (!apiKey) {
-        setPendingAction(() => action);
-        setIsApiKeyModalOpen(true);
-    } else {
-        action(apiKey);
-    }
-  }, [currentImage, addImageToHistory, apiKey]);
+    runAiRequest('Failed to apply the filter.', async (provider, signal) => {
+        const filteredImageUrls = await generateVariations(variationCount, () => generateFilteredImage(provider, currentImage, filterPrompt, { signal }));
+        presentResults(resultsToFiles(filteredImageUrls, 'filtered'), 'filter', filterPrompt);
+    }, { prompt: filterPrompt, run: handleApplyFilter });
+  }, [currentImage, variationCount, presentResults, showInputError, runAiRequest]);
   
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply an adjustment to.');
+      showInputError('No image loaded to apply an adjustment to.');
       return;
     }
     
-    const action = async (key: string) => {
-        setIsLoading(true);
-        setError(null);
-        try {
-            const adjustedImageUrl = await generateAdjustedImage(key, currentImage, adjustmentPrompt);
-            const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-            addImageToHistory(newImageFile);
-        } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-            setError(`Failed to apply the adjustment. ${errorMessage}`);
-            console.error(err);
-        } finally {
-            setIsLoading(false);
-        }
-    };
+    runAiRequest('Failed to apply the adjustment.', async (provider, signal) => {
+        const adjustedImageUrls = await generateVariations(variationCount, () => generateAdjustedImage(provider, currentImage, adjustmentPrompt, { signal }));
+        presentResults(resultsToFiles(adjustedImageUrls, 'adjusted'), 'adjust', adjustmentPrompt);
+    }, { prompt: adjustmentPrompt, run: handleApplyAdjustment });
+  }, [currentImage, variationCount, presentResults, showInputError, runAiRequest]);
 
-    if (!apiKey) {
-        setPendingAction(() => action);
-        setIsApiKeyModalOpen(true);
-    } else {
-        action(apiKey);
+  const handleApplyTone = useCallback(async () => {
+    if (!currentImage || isNeutralTone(toneSettings)) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+        const adjustedImageFile = await applyToneAdjustments(currentImage, toneSettings);
+        addImageToHistory(adjustedImageFile, 'adjust', describeToneSettings(toneSettings));
+    } catch (err) {
+        reportFailure('Failed to apply the adjustment.', err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, toneSettings, addImageToHistory, reportFailure]);
+
+  const handleApplyLut = useCallback(async () => {
+    if (!currentImage || !lutSelection) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+        const { preset, intensity } = lutSelection;
+        const filteredImageFile = await applyLut(currentImage, { lut: preset.lut, intensity });
+        addImageToHistory(filteredImageFile, 'filter', `LUT: ${preset.name}${intensity < 100 ? ` (${intensity}%)` : ''}`);
+    } catch (err) {
+        reportFailure('Failed to apply the LUT.', err);
+    } finally {
+        setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory, apiKey]);
+  }, [currentImage, lutSelection, addImageToHistory, reportFailure]);
 
-  const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) {
-        setError('Please select an area to crop.');
+  const handleApplyCrop = useCallback(async (outputSize: { width: number, height: number } | null) => {
+    if (!currentImage) return;
+    const region = completedCrop?.width && completedCrop.height ? completedCrop : null;
+    if (!region && isIdentityTransform(cropTransform) && !outputSize) {
+        showInputError('Please select an area to crop.');
         return;
     }
 
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
+    setIsLoading(true);
+    setError(null);
+    try {
+        // Rendered from the source file, so the crop keeps its native resolution
+        const croppedImageFile = await renderTransformedImage(currentImage, cropTransform, { region, outputSize });
+        addImageToHistory(croppedImageFile, 'crop');
+    } catch (err) {
+        reportFailure('Failed to crop the image.', err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, completedCrop, cropTransform, addImageToHistory, showInputError, reportFailure]);
 
-    if (!ctx) {
-        setError('Could not process the crop.');
-        return;
+  const handleCropTransformChange = useCallback((transform: ImageTransform) => {
+    // A quarter turn swaps the image's width and height, so the selection no longer fits
+    if (transform.quarterTurns !== cropTransform.quarterTurns) {
+      setCrop(undefined);
+      setCompletedCrop(undefined);
     }
+    setCropTransform(transform);
+  }, [cropTransform.quarterTurns]);
 
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      completedCrop.width,
-      completedCrop.height,
-    );
-    
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile);
+  const handleChooseVariation = useCallback((index: number, keepOthers: boolean) => {
+    if (!pendingVariations) return;
+    const { files, operation, prompt, parentId } = pendingVariations;
+    setPendingVariations(null);
 
-  }, [completedCrop, addImageToHistory]);
+    if (parentId === null) {
+      // Each memory candidate would start its own project, so only the chosen one is kept
+      startMemoryProject(files[index], prompt ?? '');
+      return;
+    }
+    // The other candidates become siblings of the chosen one, reachable from the history panel
+    const nodes = files.map(file => createHistoryNode(file, operation, parentId, prompt));
+    setHistory(current => [...current, ...(keepOthers ? nodes : [nodes[index]])]);
+    setCurrentNodeId(nodes[index].id);
+    setCrop(undefined);
+    setCompletedCrop(undefined);
+  }, [pendingVariations, startMemoryProject]);
 
   const handleUndo = useCallback(() => {
-    if (canUndo) {
-      setHistoryIndex(historyIndex - 1);
+    if (currentNode?.parentId) {
+      setCurrentNodeId(currentNode.parentId);
       setEditHotspot(null);
-      setDisplayHotspot(null);
     }
-  }, [canUndo, historyIndex]);
+  }, [currentNode]);
   
   const handleRedo = useCallback(() => {
-    if (canRedo) {
-      setHistoryIndex(historyIndex + 1);
+    if (redoNode) {
+      setCurrentNodeId(redoNode.id);
       setEditHotspot(null);
-      setDisplayHotspot(null);
     }
-  }, [canRedo, historyIndex]);
+  }, [redoNode]);
 
   const handleReset = useCallback(() => {
-    if (history.length > 0) {
-      setHistoryIndex(0);
+    const rootNode = getRootNode(history);
+    if (rootNode) {
+      setCurrentNodeId(rootNode.id);
       setError(null);
       setEditHotspot(null);
-      setDisplayHotspot(null);
     }
   }, [history]);
 
+  const handleSelectHistoryNode = useCallback((nodeId: string) => {
+    setCurrentNodeId(nodeId);
+    setEditHotspot(null);
+  }, []);
+
+  const handleResumeSession = useCallback(async (sessionId: string) => {
+    try {
+      const saved = await loadSession(sessionId);
+      if (!saved) {
+        setError({ title: 'Failed to open the project.', error: { kind: 'unknown', message: 'It could not be found and may have been deleted.' } });
+        return;
+      }
+      setError(null);
+      setSession(saved.session);
+      setHistory(saved.history);
+      setCurrentNodeId(saved.currentNodeId);
+      lastVisitedChildRef.current = {};
+      setEditHotspot(null);
+      setActiveTab('retouch');
+      setCrop(undefined);
+      setCompletedCrop(undefined);
+    } catch (err) {
+      reportFailure('Failed to open the project.', err);
+    }
+  }, [reportFailure]);
+
   const handleUploadNew = useCallback(() => {
+      // The session stays saved, so it can be resumed from the start screen
+      setSession(null);
       setHistory([]);
-      setHistoryIndex(-1);
+      setCurrentNodeId(null);
+      lastVisitedChildRef.current = {};
       setError(null);
       setPrompt('');
       setEditHotspot(null);
-      setDisplayHotspot(null);
   }, []);
 
-  const handleDownload = useCallback(() => {
-      if (currentImage) {
-          const link = document.createElement('a');
-          link.href = URL.createObjectURL(currentImage);
-          link.download = `edited-${currentImage.name}`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(link.href);
-      }
-  }, [currentImage]);
-  
+  // Every step of the project can become a slide; the path to the current step starts out selected
+  const handleOpenHistorySlideshow = () => {
+    setSlideshow({
+      sources: history.map((node, index) => ({ id: node.id, image: node.file, label: `${index + 1}. ${operationLabels[node.operation]}`, caption: '' })),
+      initialSourceIds: getPathToNode(history, currentNodeId).map(node => node.id),
+    });
+  };
+
+  const handleOpenStoryboardSlideshow = () => {
+    const panels = (storyboard?.panels ?? []).filter(panel => panel.image);
+    setSlideshow({
+      sources: panels.map((panel, index) => ({ id: panel.id, image: panel.image!, label: panel.caption || `Panel ${index + 1}`, caption: panel.caption })),
+      initialSourceIds: panels.map(panel => panel.id),
+    });
+  };
+
   const handleFileSelect = (files: FileList | null) => {
     if (files && files[0]) {
       handleImageUpload(files[0]);
     }
   };
 
+  const handleRetouchToolChange = (tool: RetouchTool) => {
+    setRetouchTool(tool);
+    if (tool !== 'point') {
+      setEditHotspot(null);
+    } else {
+      setSelectedObjectId(null);
+    }
+  };
+
   const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTab !== 'retouch') return;
+    if (!isPickingPoint) return;
     
     const img = e.currentTarget;
+    // The on-screen box includes the editor's zoom, unlike clientWidth/clientHeight
     const rect = img.getBoundingClientRect();
 
     const offsetX = e.clientX - rect.left;
     const offsetY = e.clientY - rect.top;
-    
-    setDisplayHotspot({ x: offsetX, y: offsetY });
-
-    const { naturalWidth, naturalHeight, clientWidth, clientHeight } = img;
-    const scaleX = naturalWidth / clientWidth;
-    const scaleY = naturalHeight / clientHeight;
 
-    const originalX = Math.round(offsetX * scaleX);
-    const originalY = Math.round(offsetY * scaleY);
+    const originalX = Math.round(offsetX * img.naturalWidth / rect.width);
+    const originalY = Math.round(offsetY * img.naturalHeight / rect.height);
 
     setEditHotspot({ x: originalX, y: originalY });
 };
@@ -375,18 +759,39 @@ const App: React.FC = () => {
 
 
   const renderContent = () => {
-    if (error) {
-       return (
-           <div className="text-center animate-fade-in bg-red-900/50 border border-red-700/50 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4 backdrop-blur-sm">
-            <h2 className="text-2xl font-bold text-cyan-400">An Error Occurred</h2>
-            <p className="text-md text-red-300">{error}</p>
-            <button
-                onClick={() => setError(null)}
-                className="bg-red-700 hover:bg-red-800 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
-              >
-                Try Again
-            </button>
-          </div>
+    const cancelButton = activeRequest && (
+        <button
+            onClick={() => activeRequest.abort()}
+            className="bg-gray-800/80 border border-gray-700 text-gray-300 font-semibold py-2 px-6 rounded-md transition-colors duration-200 ease-in-out hover:bg-gray-700 hover:text-white active:scale-95 text-sm"
+        >
+            Cancel
+        </button>
+    );
+
+    if (pendingVariations) {
+        return (
+            <VariationSheet
+                candidates={pendingVariations.files}
+                prompt={pendingVariations.prompt}
+                canKeepOthers={pendingVariations.parentId !== null}
+                onChoose={handleChooseVariation}
+                onDiscard={() => setPendingVariations(null)}
+            />
+        );
+    }
+
+    if (storyboard && !currentImageUrl) {
+        return (
+            <StoryboardView
+                storyboard={storyboard}
+                onStoryboardChange={setStoryboard}
+                onGeneratePanels={handleGenerateStoryboardPanels}
+                generatingPanelId={generatingPanelId}
+                onClose={() => setStoryboard(null)}
+                onExportSlideshow={handleOpenStoryboardSlideshow}
+                isLoading={isLoading}
+                cancelButton={cancelButton}
+            />
         );
     }
 
@@ -394,46 +799,116 @@ const App: React.FC = () => {
         return (
             <div className="text-center animate-fade-in flex flex-col items-center justify-center gap-4">
                 <Spinner />
-                <p className="text-gray-300 text-lg">AI is creating your vision...</p>
+                <p className="text-gray-300 text-lg">{variationCount > 1 ? `AI is creating ${variationCount} versions of your vision...` : 'AI is creating your vision...'}</p>
                 <p className="text-gray-500 text-sm">This may take a moment.</p>
+                {cancelButton}
             </div>
         );
     }
     
     if (!currentImageUrl) {
-      return <StartScreen onFileSelect={handleFileSelect} onCreateMemory={handleCreateMemory} isLoading={isLoading} />;
+      return <StartScreen onFileSelect={handleFileSelect} onCreateMemory={handleCreateMemory} onPlanStoryboard={handlePlanStoryboard} onResumeSession={handleResumeSession} variationCount={variationCount} onVariationCountChange={setVariationCount} isLoading={isLoading} />;
     }
 
     const imageDisplay = (
-      <div className="relative">
-        {/* Base image is the original, always at the bottom */}
-        {originalImageUrl && (
+      <div className="relative w-full h-full">
+        {/* Base image is the comparison step, always at the bottom */}
+        {compareImageUrl && (
             <img
-                key={originalImageUrl}
-                src={originalImageUrl}
-                alt="Original"
-                className="w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none"
+                key={compareImageUrl}
+                src={compareImageUrl}
+                alt="Comparison step"
+                className="absolute inset-0 w-full h-full object-contain rounded-xl pointer-events-none"
             />
         )}
         {/* The current image is an overlay that fades in/out for comparison */}
         <img
-            ref={imgRef}
             key={currentImageUrl}
             src={currentImageUrl}
             alt="Current"
             onClick={handleImageClick}
-            className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' ? 'cursor-crosshair' : ''}`}
+            className={`absolute inset-0 w-full h-full object-contain rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' || activeTab === 'product' ? 'cursor-crosshair' : ''}`}
         />
+        {activeTab === 'adjust' && currentImage && (
+            <LivePreview
+                image={currentImage}
+                createRenderer={createToneRenderer}
+                params={toneSettings}
+                isVisible={!isComparing && !isNeutralTone(toneSettings)}
+            />
+        )}
+        {activeTab === 'filters' && currentImage && lutParams && (
+            <LivePreview
+                image={currentImage}
+                createRenderer={createLutRenderer}
+                params={lutParams}
+                isVisible={!isComparing}
+            />
+        )}
+        {activeTab === 'retouch' && imageSize && (
+            <MaskCanvas
+                ref={maskCanvasRef}
+                key={`mask-${currentImageUrl}`}
+                width={imageSize.width}
+                height={imageSize.height}
+                tool={retouchTool}
+                brushSize={brushSize}
+                onMaskChange={setHasMask}
+                disabled={isLoading}
+            />
+        )}
+        {activeTab === 'retouch' && detectedObjects && imageSize && !isLoading && (
+            <div className="absolute inset-0 pointer-events-none z-30">
+                {detectedObjects.map(object => (
+                    <div
+                        key={object.id}
+                        className={`absolute border-2 rounded-sm ${object.id === selectedObjectId ? 'border-cyan-400' : 'border-white/60 border-dashed'}`}
+                        style={{
+                          left: `${object.box.x / imageSize.width * 100}%`,
+                          top: `${object.box.y / imageSize.height * 100}%`,
+                          width: `${object.box.width / imageSize.width * 100}%`,
+                          height: `${object.box.height / imageSize.height * 100}%`,
+                        }}
+                    >
+                        <span
+                            className={`absolute top-0 left-0 whitespace-nowrap text-xs font-semibold px-1.5 py-0.5 rounded-br origin-top-left ${object.id === selectedObjectId ? 'bg-cyan-500 text-white' : 'bg-black/60 text-gray-200'}`}
+                            style={{ transform: 'scale(calc(1 / var(--editor-zoom, 1)))' }}
+                        >
+                            {object.label}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        )}
+        {/* Placed in image coordinates and scaled back down so it stays the same size at any zoom */}
+        {editHotspot && imageSize && !isLoading && isPickingPoint && (
+            <div 
+                className="absolute rounded-full w-6 h-6 bg-cyan-500/50 border-2 border-white pointer-events-none z-10"
+                style={{
+                  left: `${editHotspot.x / imageSize.width * 100}%`,
+                  top: `${editHotspot.y / imageSize.height * 100}%`,
+                  transform: 'translate(-50%, -50%) scale(calc(1 / var(--editor-zoom, 1)))',
+                }}
+            >
+                <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-cyan-400"></div>
+            </div>
+        )}
       </div>
     );
     
+    const isCompareViewVisible = compareMode !== 'off' && !!compareImageUrl;
+
     // For ReactCrop, we need a single image element. We'll use the current one.
+    // Quarter turns and flips come from a rendered preview; straightening is shown with CSS so the slider stays smooth
+    const cropImageUrl = cropPreviewUrl ?? currentImageUrl;
     const cropImageElement = (
       <img 
-        ref={imgRef}
-        key={`crop-${currentImageUrl}`}
-        src={currentImageUrl} 
+        key={`crop-${cropImageUrl}`}
+        src={cropImageUrl} 
         alt="Crop this image"
+        style={cropTransform.straighten && imageSize ? {
+          transform: `rotate(${cropTransform.straighten}deg) scale(${straightenScale(imageSize.width, imageSize.height, cropTransform.straighten)})`,
+        } : undefined}
         className="w-full h-auto object-contain max-h-[60vh] rounded-xl"
       />
     );
@@ -445,34 +920,47 @@ const App: React.FC = () => {
             {isLoading && (
                 <div className="absolute inset-0 bg-black/80 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in">
                     <Spinner />
-                    <p className="text-gray-300">AI is working its magic...</p>
+                    <p className="text-gray-300">{variationCount > 1 ? `AI is working its magic on ${variationCount} variations...` : 'AI is working its magic...'}</p>
+                    {cancelButton}
                 </div>
             )}
             
-            {activeTab === 'crop' ? (
-              <ReactCrop 
-                crop={crop} 
-                onChange={c => setCrop(c)} 
-                onComplete={c => setCompletedCrop(c)}
-                aspect={aspect}
-                className="max-h-[60vh]"
-              >
-                {cropImageElement}
-              </ReactCrop>
-            ) : imageDisplay }
-
-            {displayHotspot && !isLoading && activeTab === 'retouch' && (
-                <div 
-                    className="absolute rounded-full w-6 h-6 bg-cyan-500/50 border-2 border-white pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10"
-                    style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px` }}
+            {imageSize && (
+              // Hidden rather than unmounted so a painted mask survives a look at the comparison
+              <div className={isCompareViewVisible && activeTab !== 'crop' ? 'hidden' : undefined}>
+                <EditorCanvas
+                    imageWidth={activeTab === 'crop' && cropTransform.quarterTurns % 2 === 1 ? imageSize.height : imageSize.width}
+                    imageHeight={activeTab === 'crop' && cropTransform.quarterTurns % 2 === 1 ? imageSize.width : imageSize.height}
+                    minimapUrl={activeTab === 'crop' ? cropImageUrl : currentImageUrl}
+                    panOnDrag={activeTab === 'adjust' || activeTab === 'filters' || isPickingPoint}
                 >
-                    <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-cyan-400"></div>
-                </div>
+                  {activeTab === 'crop' ? (
+                    <ReactCrop 
+                      crop={crop} 
+                      onChange={(_, percentCrop) => setCrop(percentCrop)}
+                      onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)}
+                      aspect={aspect}
+                      className="w-full"
+                    >
+                      {cropImageElement}
+                    </ReactCrop>
+                  ) : imageDisplay}
+                </EditorCanvas>
+              </div>
+            )}
+            {isCompareViewVisible && activeTab !== 'crop' && compareImageUrl && (
+              <CompareView
+                  beforeUrl={compareImageUrl}
+                  afterUrl={currentImageUrl}
+                  beforeLabel={compareNode?.parentId === null ? 'Original' : `Step ${history.indexOf(compareNode!) + 1}`}
+                  afterLabel="Current"
+                  mode={compareMode as Exclude<CompareMode, 'off'>}
+              />
             )}
         </div>
         
         <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-1.5 flex items-center justify-center gap-1 backdrop-blur-sm">
-            {(['retouch', 'crop', 'adjust', 'filters'] as Tab[]).map(tab => (
+            {(['retouch', 'product', 'crop', 'adjust', 'filters'] as Tab[]).map(tab => (
                  <button
                     key={tab}
                     onClick={() => setActiveTab(tab)}
@@ -487,34 +975,115 @@ const App: React.FC = () => {
             ))}
         </div>
         
+        {activeTab !== 'crop' && <VariationCountPicker count={variationCount} onCountChange={setVariationCount} isLoading={isLoading} />}
+
         <div className="w-full">
             {activeTab === 'retouch' && (
                 <div className="flex flex-col items-center gap-4">
+                    <ToolOptions
+                        tool={retouchTool}
+                        onToolChange={handleRetouchToolChange}
+                        brushSize={brushSize}
+                        onBrushSizeChange={setBrushSize}
+                        onClearMask={() => { maskCanvasRef.current?.clear(); setSelectedObjectId(null); }}
+                        hasMask={hasMask}
+                        isLoading={isLoading}
+                    />
+                    <div className="w-full flex flex-col gap-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm text-gray-400">
+                                {detectedObjects
+                                    ? detectedObjects.length > 0 ? 'Pick an object to edit just that object.' : 'No objects were found in this image.'
+                                    : 'Not sure where to click? Find the objects in the image.'}
+                            </span>
+                            <button
+                                onClick={handleAnalyzeImage}
+                                disabled={isLoading || !imageSize}
+                                className="shrink-0 bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-2 px-4 rounded-md transition-colors hover:bg-gray-700 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {detectedObjects ? 'Analyze Again' : 'Analyze'}
+                            </button>
+                        </div>
+                        {detectedObjects && detectedObjects.length > 0 && currentImageUrl && imageSize && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 max-h-64 overflow-y-auto p-1">
+                                {detectedObjects.map(object => (
+                                    <ObjectCard
+                                        key={object.id}
+                                        object={object}
+                                        imageUrl={currentImageUrl}
+                                        imageSize={imageSize}
+                                        isSelected={object.id === selectedObjectId}
+                                        onSelect={handleSelectObject}
+                                        isLoading={isLoading}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </div>
                     <p className="text-sm text-gray-400">
-                        {editHotspot ? 'Great! Now describe your localized edit below.' : 'Click an area on the image to make a precise edit.'}
+                        {selectedObject && hasMask
+                            ? `Editing the ${selectedObject.label}. Describe the change below, e.g. 'make this red'.`
+                            : hasEditRegion
+                                ? 'Great! Now describe your localized edit below.'
+                                : retouchTool === 'point'
+                                    ? 'Click an area on the image to make a precise edit.'
+                                    : 'Paint over the area you want to change. Only the masked region will be edited.'}
                     </p>
                     <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-stretch gap-2">
                         <input
                             type="text"
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
-                            placeholder={editHotspot ? "e.g., 'change my shirt color to blue'" : "First click a point on the image"}
+                            placeholder={hasEditRegion ? "e.g., 'change my shirt color to blue'" : retouchTool === 'point' ? "First click a point on the image" : "First paint a mask on the image"}
                             className="flex-grow bg-[#1F2937]/70 border border-gray-700 text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-cyan-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 backdrop-blur-sm"
-                            disabled={isLoading || !editHotspot}
+                            disabled={isLoading || !hasEditRegion}
                         />
                         <button 
                             type="submit"
                             className="bg-cyan-500 text-white font-bold py-4 px-8 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30 hover:bg-cyan-600 active:scale-95 disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
-                            disabled={isLoading || !prompt.trim() || !editHotspot}
+                            disabled={isLoading || !prompt.trim() || !hasEditRegion}
                         >
                             Generate
                         </button>
                     </form>
                 </div>
             )}
-            {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />}
-            {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} />}
-            {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} />}
+            {activeTab === 'product' && (
+                <div className="flex flex-col items-center gap-4">
+                    <ProductSelector
+                        selectedProductId={selectedProduct?.id ?? null}
+                        onSelectProduct={setSelectedProduct}
+                        isLoading={isLoading}
+                    />
+                    <p className="text-sm text-gray-400">
+                        {!selectedProduct
+                            ? 'Pick a product from your catalog, or add a new one.'
+                            : editHotspot
+                                ? `Ready to place ${selectedProduct.name}. Add directions below if you like.`
+                                : `Click where ${selectedProduct.name} should go.`}
+                    </p>
+                    <form onSubmit={(e) => { e.preventDefault(); handlePlaceProduct(); }} className="w-full flex items-stretch gap-2">
+                        <input
+                            type="text"
+                            value={productInstructions}
+                            onChange={(e) => setProductInstructions(e.target.value)}
+                            placeholder="Directions (optional), e.g. 'on the table, label facing the camera'"
+                            className="flex-grow bg-[#1F2937]/70 border border-gray-700 text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-cyan-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 backdrop-blur-sm"
+                            disabled={isLoading || !selectedProduct}
+                        />
+                        <button 
+                            type="submit"
+                            className="bg-cyan-500 text-white font-bold py-4 px-8 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30 hover:bg-cyan-600 active:scale-95 disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+                            disabled={isLoading || !selectedProduct || !editHotspot}
+                        >
+                            Place
+                        </button>
+                    </form>
+                </div>
+            )}
+            {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} transform={cropTransform} onTransformChange={handleCropTransformChange} isLoading={isLoading} canApply={(!!completedCrop?.width && completedCrop.width > 0) || !isIdentityTransform(cropTransform)} />}
+            {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} toneSettings={toneSettings} onToneSettingsChange={setToneSettings} onApplyTone={handleApplyTone} previewImage={currentImage} isLoading={isLoading} />}
+            {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} lutSelection={lutSelection} onLutSelectionChange={setLutSelection} onApplyLut={handleApplyLut} previewImage={currentImage} isLoading={isLoading} />}
         </div>
         
         <div className="flex flex-wrap items-center justify-center gap-2 mt-4">
@@ -536,22 +1105,27 @@ const App: React.FC = () => {
                 <RedoIcon className="w-4 h-4 mr-2" />
                 Redo
             </button>
+            <button 
+                onClick={() => setIsHistoryOpen(open => !open)}
+                className={`text-center border border-gray-700 font-semibold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out hover:bg-gray-700 hover:text-white active:scale-95 text-sm ${isHistoryOpen ? 'bg-gray-700 text-white' : 'bg-gray-800/80 text-gray-300'}`}
+                aria-expanded={isHistoryOpen}
+            >
+                History ({history.length})
+            </button>
             
             <div className="h-6 w-px bg-gray-700 mx-1 hidden sm:block"></div>
 
-            {canUndo && (
-              <button 
-                  onMouseDown={() => setIsComparing(true)}
-                  onMouseUp={() => setIsComparing(false)}
-                  onMouseLeave={() => setIsComparing(false)}
-                  onTouchStart={() => setIsComparing(true)}
-                  onTouchEnd={() => setIsComparing(false)}
-                  className="flex items-center justify-center text-center bg-gray-800/80 border border-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out hover:bg-gray-700 hover:text-white active:scale-95 text-sm"
-                  aria-label="Press and hold to see original image"
-              >
-                  <EyeIcon className="w-4 h-4 mr-2" />
-                  Compare
-              </button>
+            {history.length > 1 && (
+              <CompareControls
+                  nodes={history}
+                  currentNodeId={currentNodeId}
+                  mode={compareMode}
+                  onModeChange={setCompareMode}
+                  target={compareTarget}
+                  onTargetChange={setCompareTarget}
+                  onHoldChange={setIsComparing}
+                  canCompare={canCompare}
+              />
             )}
 
             <button 
@@ -569,22 +1143,70 @@ const App: React.FC = () => {
             </button>
 
             <button 
-                onClick={handleDownload}
-                className="flex-grow sm:flex-grow-0 ml-auto bg-cyan-500 text-white font-bold py-2 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/40 hover:bg-cyan-600 active:scale-95 text-sm"
+                onClick={handleOpenHistorySlideshow}
+                disabled={isLoading}
+                className="ml-auto text-center bg-gray-800/80 border border-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out hover:bg-gray-700 hover:text-white active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
-                Download Image
+                Slideshow...
+            </button>
+            <button 
+                onClick={() => setIsExportOpen(true)}
+                className="flex-grow sm:flex-grow-0 bg-cyan-500 text-white font-bold py-2 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/40 hover:bg-cyan-600 active:scale-95 text-sm"
+            >
+                Export...
             </button>
         </div>
+
+        {isHistoryOpen && (
+            <HistoryPanel
+                nodes={history}
+                currentNodeId={currentNodeId}
+                onSelectNode={handleSelectHistoryNode}
+                isLoading={isLoading}
+            />
+        )}
       </div>
     );
   };
   
   return (
     <div className="min-h-screen text-gray-100 flex flex-col">
-      <Header />
-      <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center ${currentImage ? 'items-start' : 'items-center'}`}>
+      <Header onOpenDebug={() => setIsDebugOpen(true)} />
+      <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex flex-col items-center gap-6 ${currentImage ? 'justify-start' : 'justify-center'}`}>
+        {/* Errors sit above the content so the image stays visible */}
+        {error && (
+            <ErrorNotice
+                key={`${error.error.kind}:${error.error.message}`}
+                title={error.title}
+                error={error.error}
+                onDismiss={() => setError(null)}
+                onRetry={error.retry && (() => { setError(null); error.retry!(); })}
+                rephrasePrompt={error.rephrase?.prompt}
+                onRephrase={error.rephrase && ((newPrompt: string) => { setError(null); error.rephrase!.run(newPrompt); })}
+                onUpdateApiKey={error.updateApiKey}
+            />
+        )}
         {renderContent()}
       </main>
+      {isExportOpen && currentNodeId && (
+        <ExportDialog
+            nodes={history}
+            currentNodeId={currentNodeId}
+            projectName={session?.name ?? 'image'}
+            metadata={session?.metadata ?? null}
+            onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {slideshow && (
+        <SlideshowDialog
+            sources={slideshow.sources}
+            initialSourceIds={slideshow.initialSourceIds}
+            currentSessionId={session?.id ?? null}
+            projectName={session?.name ?? 'memories'}
+            onClose={() => setSlideshow(null)}
+        />
+      )}
+      {isDebugOpen && <DebugModal onClose={() => setIsDebugOpen(false)} />}
       {isApiKeyModalOpen && (
         <ApiKeyModal 
             onSubmit={handleApiKeySubmit}
@@ -2,3 +2,125 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect } from 'react';
+import { addProduct } from '../services/productCatalog';
+import type { Product } from '../types';
+import { UploadIcon } from './icons';
+
+interface AddProductModalProps {
+  onAdded: (product: Product) => void;
+  onClose: () => void;
+}
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ onAdded, onClose }) => {
+  const [image, setImage] = useState<File | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!image) {
+      setImageUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImage(file);
+    // Suggest a name from the file, e.g. "red-mug.png" becomes "red mug"
+    if (!name.trim()) setName(file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' '));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!image || !name.trim()) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      onAdded(await addProduct(image, name.trim(), description.trim()));
+    } catch (err) {
+      console.error("Failed to add the product", err);
+      setSaveError(err instanceof Error && err.message ? `Could not add this product. ${err.message}` : 'Could not add this product.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={() => !isSaving && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="addProductModalTitle"
+    >
+      <div
+        className="bg-[#1F2937] border border-gray-700 rounded-xl p-6 sm:p-8 max-w-lg w-full shadow-2xl shadow-cyan-500/10"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="addProductModalTitle" className="text-2xl font-bold text-cyan-400 mb-2 text-center">Add a Product</h2>
+        <p className="text-sm text-gray-400 mb-6 text-center">
+          A clear photo of the product on a plain background works best. It's kept on this device only.
+        </p>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <label className="relative aspect-video rounded-lg overflow-hidden bg-gray-900/70 border border-dashed border-gray-600 flex flex-col items-center justify-center gap-2 cursor-pointer hover:border-gray-500 transition-colors">
+            {imageUrl
+              ? <img src={imageUrl} alt="Product preview" className="w-full h-full object-contain" />
+              : (
+                <>
+                  <UploadIcon className="w-6 h-6 text-gray-400" />
+                  <span className="text-sm text-gray-400">Choose a product photo</span>
+                </>
+              )}
+            <input type="file" accept="image/*" onChange={handleImageChange} disabled={isSaving} className="sr-only" />
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. 'Enamel camping mug'"
+            disabled={isSaving}
+            className="w-full bg-gray-900/70 border border-gray-600 text-gray-200 rounded-lg p-3 text-base focus:ring-2 focus:ring-cyan-500 focus:outline-none transition"
+            aria-label="Product name"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional), e.g. 'white enamel with a blue rim, about 10 cm tall'"
+            disabled={isSaving}
+            className="w-full bg-gray-900/70 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm h-24 resize-none focus:ring-2 focus:ring-cyan-500 focus:outline-none transition"
+            aria-label="Product description"
+          />
+          {saveError && <p className="text-sm text-red-400 text-center">{saveError}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="flex-1 bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-colors hover:bg-gray-700 text-sm disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !image || !name.trim()}
+              className="flex-1 bg-cyan-500 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:bg-cyan-600 active:scale-95 disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed text-sm"
+            >
+              {isSaving ? 'Saving...' : 'Add Product'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddProductModal;
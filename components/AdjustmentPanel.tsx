@@ -4,13 +4,32 @@
 */
 
 import React, { useState } from 'react';
+import { DEFAULT_TONE_SETTINGS, isNeutralTone } from '../services/toneAdjustments';
+import type { ToneSettings } from '../types';
+import PromptPresetLibrary from './PromptPresetLibrary';
 
 interface AdjustmentPanelProps {
   onApplyAdjustment: (prompt: string) => void;
+  toneSettings: ToneSettings;
+  onToneSettingsChange: (settings: ToneSettings) => void;
+  onApplyTone: () => void;
+  previewImage: File | null; // thumbnails for saved presets are made from this
   isLoading: boolean;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading }) => {
+const toneControls: { key: keyof ToneSettings, label: string, min: number, max: number, step: number }[] = [
+  { key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1 },
+  { key: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { key: 'vibrance', label: 'Vibrance', min: -100, max: 100, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+  { key: 'sharpness', label: 'Sharpening', min: 0, max: 100, step: 1 },
+];
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, toneSettings, onToneSettingsChange, onApplyTone, previewImage, isLoading }) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
 
@@ -39,6 +58,12 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     }
   };
 
+  const handleToneChange = (key: keyof ToneSettings, value: number) => {
+    onToneSettingsChange({ ...toneSettings, [key]: value });
+  };
+
+  const hasToneChanges = !isNeutralTone(toneSettings);
+
   return (
     <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-base font-semibold text-center text-gray-300">Apply a Professional Adjustment</h3>
@@ -56,6 +81,15 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
         ))}
       </div>
 
+      <PromptPresetLibrary
+        kind="adjustment"
+        currentPrompt={customPrompt}
+        selectedPrompt={selectedPresetPrompt}
+        onSelect={handlePresetClick}
+        thumbnailSource={previewImage}
+        isLoading={isLoading}
+      />
+
       <input
         type="text"
         value={customPrompt}
@@ -76,6 +110,52 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
             </button>
         </div>
       )}
+
+      <div className="border-t border-gray-800 pt-4 flex flex-col gap-3">
+        <div className="text-center">
+          <h4 className="text-sm font-semibold text-gray-300">Manual Tone</h4>
+          <p className="text-xs text-gray-500">Applied instantly on your device. No AI, no API cost, faces stay untouched. Double-click a slider to reset it.</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-3">
+          {toneControls.map(({ key, label, min, max, step }) => (
+            <label key={key} className="flex flex-col gap-1 text-sm text-gray-400">
+              <span className="flex justify-between">
+                {label}
+                <span className="text-gray-300 tabular-nums">
+                  {toneSettings[key] > 0 ? '+' : ''}{key === 'exposure' ? toneSettings[key].toFixed(2) : toneSettings[key]}
+                </span>
+              </span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={toneSettings[key]}
+                onChange={(e) => handleToneChange(key, Number(e.target.value))}
+                onDoubleClick={() => handleToneChange(key, DEFAULT_TONE_SETTINGS[key])}
+                disabled={isLoading}
+                className="w-full accent-cyan-500 disabled:opacity-50"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onToneSettingsChange(DEFAULT_TONE_SETTINGS)}
+            disabled={isLoading || !hasToneChanges}
+            className="bg-transparent border border-gray-700 text-gray-300 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-gray-800/80 hover:text-white active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onApplyTone}
+            disabled={isLoading || !hasToneChanges}
+            className="flex-grow bg-cyan-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30 hover:bg-cyan-600 active:scale-95 text-base disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            Apply Tone
+          </button>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { EyeIcon } from './icons';
+import { operationLabels } from './HistoryPanel';
+import type { CompareMode, HistoryNode } from '../types';
+
+// 'original' and 'previous' follow the current step around; anything else is a fixed step id
+export type CompareTarget = 'original' | 'previous' | string;
+
+interface CompareControlsProps {
+  nodes: HistoryNode[]; // the whole project, in the order the steps were created
+  currentNodeId: string | null;
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  target: CompareTarget;
+  onTargetChange: (target: CompareTarget) => void;
+  onHoldChange: (isHolding: boolean) => void;
+  canCompare: boolean; // the target resolves to a step other than the current one
+}
+
+const modes: { mode: CompareMode, label: string }[] = [
+  { mode: 'split', label: 'Split' },
+  { mode: 'side-by-side', label: 'Side by Side' },
+];
+
+const buttonClass = "flex items-center justify-center text-center border border-gray-700 font-semibold py-2 px-4 rounded-md transition-colors duration-200 ease-in-out active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed";
+
+const CompareControls: React.FC<CompareControlsProps> = ({ nodes, currentNodeId, mode, onModeChange, target, onTargetChange, onHoldChange, canCompare }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <button
+        onPointerDown={() => onHoldChange(true)}
+        onPointerUp={() => onHoldChange(false)}
+        onPointerLeave={() => onHoldChange(false)}
+        onPointerCancel={() => onHoldChange(false)}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={!canCompare || mode !== 'off'}
+        className={`${buttonClass} bg-gray-800/80 text-gray-300 hover:bg-gray-700 hover:text-white touch-none select-none`}
+        aria-label="Press and hold to see the comparison step"
+    >
+        <EyeIcon className="w-4 h-4 mr-2" />
+        Compare
+    </button>
+    {modes.map(option => (
+      <button
+          key={option.mode}
+          onClick={() => onModeChange(mode === option.mode ? 'off' : option.mode)}
+          disabled={!canCompare && mode !== option.mode}
+          aria-pressed={mode === option.mode}
+          className={`${buttonClass} ${mode === option.mode ? 'bg-cyan-500 border-cyan-500 text-white' : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700 hover:text-white'}`}
+      >
+          {option.label}
+      </button>
+    ))}
+    <select
+        value={target}
+        onChange={(e) => onTargetChange(e.target.value)}
+        className="bg-gray-800/80 border border-gray-700 text-gray-300 rounded-md py-2 px-2 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+        aria-label="Step to compare against"
+    >
+        <option value="original">vs. Original</option>
+        <option value="previous">vs. Previous Step</option>
+        {nodes.map((node, index) => (
+          <option key={node.id} value={node.id} disabled={node.id === currentNodeId}>
+            vs. Step {index + 1} · {operationLabels[node.operation]}{node.prompt ? ` · ${node.prompt.slice(0, 30)}` : ''}{node.id === currentNodeId ? ' (current)' : ''}
+          </option>
+        ))}
+    </select>
+  </div>
+);
+
+export default CompareControls;
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef } from 'react';
+import type { CompareMode } from '../types';
+
+interface CompareViewProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel: string;
+  afterLabel: string;
+  mode: Exclude<CompareMode, 'off'>;
+}
+
+const KEYBOARD_STEP = 2;
+
+const labelClass = "absolute top-2 px-2 py-1 rounded-md bg-black/60 text-xs font-semibold text-gray-200 pointer-events-none";
+
+const CompareView: React.FC<CompareViewProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel, mode }) => {
+  const [position, setPosition] = useState(50); // percent of the width showing the "before" image
+  const [isDragging, setIsDragging] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(Math.min(100, Math.max(0, (clientX - rect.left) / rect.width * 100)));
+  };
+
+  // Pointer events cover mouse, pen and touch; capturing keeps the drag going outside the image
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsDragging(true);
+    moveTo(e.clientX);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? KEYBOARD_STEP * 5 : KEYBOARD_STEP;
+    if (e.key === 'ArrowLeft') setPosition(p => Math.max(0, p - step));
+    else if (e.key === 'ArrowRight') setPosition(p => Math.min(100, p + step));
+    else if (e.key === 'Home') setPosition(0);
+    else if (e.key === 'End') setPosition(100);
+    else return;
+    e.preventDefault();
+  };
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        {[{ url: beforeUrl, label: beforeLabel }, { url: afterUrl, label: afterLabel }].map(({ url, label }) => (
+          <div key={label} className="relative flex items-center justify-center bg-black/30 rounded-xl">
+            <img src={url} alt={label} className="w-full h-auto object-contain max-h-[60vh] rounded-xl" />
+            <span className={`${labelClass} left-2`}>{label}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative select-none touch-none ${isDragging ? 'cursor-grabbing' : 'cursor-ew-resize'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(e) => isDragging && moveTo(e.clientX)}
+      onPointerUp={() => setIsDragging(false)}
+      onPointerCancel={() => setIsDragging(false)}
+    >
+      <img src={afterUrl} alt={afterLabel} draggable={false} className="w-full h-auto object-contain max-h-[60vh] rounded-xl" />
+      <img
+        src={beforeUrl}
+        alt={beforeLabel}
+        draggable={false}
+        className="absolute inset-0 w-full h-full object-contain rounded-xl"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      />
+      <span className={`${labelClass} left-2`}>{beforeLabel}</span>
+      <span className={`${labelClass} right-2`}>{afterLabel}</span>
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Comparison position"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(position)}
+        onKeyDown={handleKeyDown}
+        className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_6px_rgba(0,0,0,0.6)] -translate-x-1/2 focus:outline-none group"
+        style={{ left: `${position}%` }}
+      >
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-white/90 text-gray-800 flex items-center justify-center text-sm font-bold shadow-lg group-focus:ring-2 group-focus:ring-cyan-500">
+          ⇆
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -4,56 +4,201 @@
 */
 
 import React, { useState } from 'react';
+import type { ImageTransform } from '../types';
 
 interface CropPanelProps {
-  onApplyCrop: () => void;
+  onApplyCrop: (outputSize: { width: number; height: number } | null) => void;
   onSetAspect: (aspect: number | undefined) => void;
+  transform: ImageTransform;
+  onTransformChange: (transform: ImageTransform) => void;
   isLoading: boolean;
-  isCropping: boolean;
+  canApply: boolean; // there is a selection or a rotation/flip to apply; an exact output size alone can also be applied
 }
 
-type AspectRatio = 'free' | '1:1' | '16:9';
+type AspectRatio = 'free' | '1:1' | '16:9' | '4:5' | '2:3' | '9:16' | 'custom';
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoading, isCropping }) => {
+const MAX_OUTPUT_SIDE = 8192;
+
+const parsePositive = (value: string): number | null => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, transform, onTransformChange, isLoading, canApply }) => {
   const [activeAspect, setActiveAspect] = useState<AspectRatio>('free');
-  
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
-    setActiveAspect(aspect);
-    onSetAspect(value);
-  }
+  const [customRatio, setCustomRatio] = useState({ width: '3', height: '2' });
+  const [useExactSize, setUseExactSize] = useState(false);
+  const [exactSize, setExactSize] = useState({ width: '1080', height: '1350' });
 
   const aspects: { name: AspectRatio, value: number | undefined }[] = [
     { name: 'free', value: undefined },
     { name: '1:1', value: 1 / 1 },
     { name: '16:9', value: 16 / 9 },
+    { name: '4:5', value: 4 / 5 },
+    { name: '2:3', value: 2 / 3 },
+    { name: '9:16', value: 9 / 16 },
   ];
 
+  const exactWidth = parsePositive(exactSize.width);
+  const exactHeight = parsePositive(exactSize.height);
+  const isExactSizeValid = !!exactWidth && !!exactHeight && Math.max(exactWidth, exactHeight) <= MAX_OUTPUT_SIDE;
+
+  const ratioOf = (ratio: { width: string, height: string }): number | undefined => {
+    const width = parsePositive(ratio.width);
+    const height = parsePositive(ratio.height);
+    return width && height ? width / height : undefined;
+  };
+
+  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
+    setActiveAspect(aspect);
+    setUseExactSize(false);
+    onSetAspect(value);
+  };
+
+  const handleCustomRatioChange = (ratio: { width: string, height: string }) => {
+    setCustomRatio(ratio);
+    setActiveAspect('custom');
+    setUseExactSize(false);
+    onSetAspect(ratioOf(ratio));
+  };
+
+  // An exact output size locks the selection to the same shape
+  const handleExactSizeChange = (enabled: boolean, size = exactSize) => {
+    setUseExactSize(enabled);
+    setExactSize(size);
+    if (enabled) {
+      onSetAspect(ratioOf(size));
+    } else {
+      const preset = aspects.find(aspect => aspect.name === activeAspect);
+      onSetAspect(activeAspect === 'custom' ? ratioOf(customRatio) : preset?.value);
+    }
+  };
+
+  const updateTransform = (changes: Partial<ImageTransform>) => onTransformChange({ ...transform, ...changes });
+
+  const toolButtonClass = (isActive: boolean) => `px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    isActive
+    ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10'
+    : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+  }`;
+  const numberInputClass = "w-20 bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
   return (
     <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-base font-semibold text-gray-300">Crop Image</h3>
-      <p className="text-sm text-gray-400 -mt-2">Click and drag on the image to select a crop area.</p>
-      
-      <div className="flex items-center gap-2">
+      <p className="text-sm text-gray-400 -mt-2">Click and drag on the image to select a crop area, or apply a rotation on its own.</p>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button onClick={() => updateTransform({ quarterTurns: (transform.quarterTurns + 3) % 4 })} disabled={isLoading} className={toolButtonClass(false)}>
+          Rotate Left
+        </button>
+        <button onClick={() => updateTransform({ quarterTurns: (transform.quarterTurns + 1) % 4 })} disabled={isLoading} className={toolButtonClass(false)}>
+          Rotate Right
+        </button>
+        <button onClick={() => updateTransform({ flipHorizontal: !transform.flipHorizontal })} disabled={isLoading} className={toolButtonClass(transform.flipHorizontal)}>
+          Flip Horizontal
+        </button>
+        <button onClick={() => updateTransform({ flipVertical: !transform.flipVertical })} disabled={isLoading} className={toolButtonClass(transform.flipVertical)}>
+          Flip Vertical
+        </button>
+      </div>
+
+      <label className="w-full max-w-md flex flex-col gap-1 text-sm text-gray-400">
+        <span className="flex justify-between">
+          <span>Straighten</span>
+          <span className="text-gray-300 tabular-nums">{transform.straighten > 0 ? '+' : ''}{transform.straighten.toFixed(1)}°</span>
+        </span>
+        <input
+          type="range"
+          min={-45}
+          max={45}
+          step={0.1}
+          value={transform.straighten}
+          onChange={(e) => updateTransform({ straighten: Number(e.target.value) })}
+          onDoubleClick={() => updateTransform({ straighten: 0 })}
+          disabled={isLoading}
+          className="w-full accent-cyan-500 disabled:opacity-50"
+        />
+      </label>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
         <span className="text-sm font-medium text-gray-400">Aspect Ratio:</span>
         {aspects.map(({ name, value }) => (
           <button
             key={name}
             onClick={() => handleAspectChange(name, value)}
             disabled={isLoading}
-            className={`px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-              activeAspect === name 
-              ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10' 
-              : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
-            }`}
+            className={toolButtonClass(!useExactSize && activeAspect === name)}
           >
             {name}
           </button>
         ))}
+        <span className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            value={customRatio.width}
+            onChange={(e) => handleCustomRatioChange({ ...customRatio, width: e.target.value })}
+            onFocus={() => handleCustomRatioChange(customRatio)}
+            disabled={isLoading}
+            className={`${numberInputClass} w-16 ${!useExactSize && activeAspect === 'custom' ? 'ring-2 ring-cyan-500' : ''}`}
+            aria-label="Custom ratio width"
+          />
+          <span className="text-gray-500">:</span>
+          <input
+            type="number"
+            min={1}
+            value={customRatio.height}
+            onChange={(e) => handleCustomRatioChange({ ...customRatio, height: e.target.value })}
+            onFocus={() => handleCustomRatioChange(customRatio)}
+            disabled={isLoading}
+            className={`${numberInputClass} w-16 ${!useExactSize && activeAspect === 'custom' ? 'ring-2 ring-cyan-500' : ''}`}
+            aria-label="Custom ratio height"
+          />
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-300">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={useExactSize}
+            onChange={(e) => handleExactSizeChange(e.target.checked)}
+            disabled={isLoading}
+            className="accent-cyan-500"
+          />
+          Exact output size
+        </label>
+        <input
+          type="number"
+          min={1}
+          max={MAX_OUTPUT_SIDE}
+          value={exactSize.width}
+          onChange={(e) => handleExactSizeChange(true, { ...exactSize, width: e.target.value })}
+          disabled={isLoading}
+          className={numberInputClass}
+          aria-label="Output width in pixels"
+        />
+        <span className="text-gray-500">×</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_OUTPUT_SIDE}
+          value={exactSize.height}
+          onChange={(e) => handleExactSizeChange(true, { ...exactSize, height: e.target.value })}
+          disabled={isLoading}
+          className={numberInputClass}
+          aria-label="Output height in pixels"
+        />
+        <span className="text-gray-500">px</span>
       </div>
+      {useExactSize && !isExactSizeValid && (
+        <p className="text-xs text-amber-400 -mt-2">Enter a width and height of up to {MAX_OUTPUT_SIDE}px.</p>
+      )}
 
       <button
-        onClick={onApplyCrop}
-        disabled={isLoading || !isCropping}
+        onClick={() => onApplyCrop(useExactSize && exactWidth && exactHeight ? { width: Math.round(exactWidth), height: Math.round(exactHeight) } : null)}
+        disabled={isLoading || (useExactSize ? !isExactSizeValid : !canApply)}
         className="w-full max-w-xs mt-2 bg-emerald-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-emerald-500/20 hover:shadow-xl hover:shadow-emerald-500/30 hover:bg-emerald-600 active:scale-95 text-base disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
       >
         Apply Crop
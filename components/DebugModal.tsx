@@ -2,3 +2,172 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect } from 'react';
+import { getAiCallLog, subscribeToAiCallLog, clearAiCallLog, exportAiCallLog } from '../services/aiCallLog';
+import { downloadBlob } from '../services/imageExport';
+import type { AiCallRecord } from '../types';
+
+interface DebugModalProps {
+  onClose: () => void;
+}
+
+const statusStyles: Record<AiCallRecord['status'], string> = {
+  success: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-gray-500/20 text-gray-300',
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const DetailSection: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-1">
+    <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">{title}</span>
+    {children}
+  </div>
+);
+
+const DebugModal: React.FC<DebugModalProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<AiCallRecord[]>(getAiCallLog);
+  const [selectedId, setSelectedId] = useState<string | null>(() => getAiCallLog().at(-1)?.id ?? null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => subscribeToAiCallLog(setRecords), []);
+
+  const selected = records.find(record => record.id === selectedId) ?? null;
+
+  const handleCopy = async (record: AiCallRecord) => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(record, null, 2));
+      setCopiedId(record.id);
+    } catch (e) {
+      console.error("Failed to copy the call", e);
+    }
+  };
+
+  const handleExport = () => {
+    const file = exportAiCallLog();
+    downloadBlob(file, file.name);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Clear the log of AI calls?')) return;
+    clearAiCallLog();
+    setSelectedId(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="debugModalTitle"
+    >
+      <div
+        className="bg-[#1F2937] border border-gray-700 rounded-xl p-6 max-w-6xl w-full h-[85vh] shadow-2xl shadow-cyan-500/10 flex flex-col gap-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 id="debugModalTitle" className="text-2xl font-bold text-cyan-400 mr-auto">AI Calls</h2>
+          <button
+            onClick={handleExport}
+            disabled={records.length === 0}
+            className="bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-2 px-4 rounded-md transition-colors hover:bg-gray-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export Log
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-2 px-4 rounded-md transition-colors hover:bg-red-500/80 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-cyan-500 text-white font-bold py-2 px-4 rounded-md transition-colors hover:bg-cyan-600 text-sm"
+          >
+            Close
+          </button>
+        </div>
+
+        {records.length === 0 ? (
+          <p className="flex-grow flex items-center justify-center text-gray-400">No AI calls yet. Calls made during this session will show up here.</p>
+        ) : (
+          <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-[18rem_1fr] gap-4">
+            <ul className="min-h-0 overflow-y-auto flex flex-col gap-1 pr-1">
+              {[...records].reverse().map(record => (
+                <li key={record.id}>
+                  <button
+                    onClick={() => setSelectedId(record.id)}
+                    className={`w-full text-left rounded-md px-3 py-2 transition-colors ${record.id === selectedId ? 'bg-cyan-500/20 ring-1 ring-cyan-500' : 'bg-gray-800/60 hover:bg-gray-700'}`}
+                  >
+                    <span className="flex items-center gap-2">
+                      <span className="text-sm font-semibold text-gray-200 truncate mr-auto">{record.operation}</span>
+                      <span className={`text-[10px] font-bold uppercase rounded px-1.5 py-0.5 ${statusStyles[record.status]}`}>{record.status}</span>
+                    </span>
+                    <span className="block text-xs text-gray-500 tabular-nums">
+                      {new Date(record.startedAt).toLocaleTimeString()} · {(record.latencyMs / 1000).toFixed(1)}s
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected ? (
+              <div className="min-h-0 overflow-y-auto flex flex-col gap-4 bg-black/30 border border-gray-800 rounded-lg p-4">
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm text-gray-300">
+                  <span><span className="text-gray-500">Model</span> {selected.model}</span>
+                  <span><span className="text-gray-500">Latency</span> {selected.latencyMs} ms</span>
+                  <span><span className="text-gray-500">Finish reason</span> {selected.finishReason ?? '—'}</span>
+                  {selected.usage && <span><span className="text-gray-500">Tokens</span> {selected.usage.promptTokens} in · {selected.usage.outputTokens} out</span>}
+                  <button
+                    onClick={() => handleCopy(selected)}
+                    className="ml-auto bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-colors hover:bg-gray-700 text-xs"
+                  >
+                    {copiedId === selected.id ? 'Copied' : 'Copy as JSON'}
+                  </button>
+                </div>
+                {selected.error && (
+                  <DetailSection title="Error">
+                    <p className="text-sm text-red-300 whitespace-pre-wrap">{selected.error}</p>
+                  </DetailSection>
+                )}
+                <DetailSection title={`Images (${selected.images.length})`}>
+                  {selected.images.length > 0 ? (
+                    <ol className="text-sm text-gray-300 list-decimal list-inside">
+                      {selected.images.map((image, index) => (
+                        <li key={index}>{image.name} · {image.type || 'unknown type'} · {formatBytes(image.bytes)}</li>
+                      ))}
+                    </ol>
+                  ) : <p className="text-sm text-gray-500">None</p>}
+                </DetailSection>
+                <DetailSection title="Prompt">
+                  <pre className="text-xs text-gray-300 whitespace-pre-wrap font-mono bg-gray-900/70 rounded-md p-3">{selected.prompt}</pre>
+                </DetailSection>
+                <DetailSection title="Prompt feedback">
+                  {selected.promptFeedback
+                    ? <pre className="text-xs text-gray-300 whitespace-pre-wrap font-mono bg-gray-900/70 rounded-md p-3">{JSON.stringify(selected.promptFeedback, null, 2)}</pre>
+                    : <p className="text-sm text-gray-500">None</p>}
+                </DetailSection>
+                <DetailSection title={`Text parts (${selected.textParts.length})`}>
+                  {selected.textParts.length > 0
+                    ? selected.textParts.map((text, index) => (
+                        <pre key={index} className="text-xs text-gray-300 whitespace-pre-wrap font-mono bg-gray-900/70 rounded-md p-3">{text}</pre>
+                      ))
+                    : <p className="text-sm text-gray-500">None</p>}
+                </DetailSection>
+              </div>
+            ) : (
+              <p className="flex items-center justify-center text-gray-400">Pick a call to see what was sent and received.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DebugModal;
@@ -2,3 +2,333 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+
+interface EditorCanvasProps {
+  imageWidth: number; // natural size of the image being shown, used for "100%" and the fitted layout
+  imageHeight: number;
+  minimapUrl: string | null;
+  panOnDrag: boolean; // false while a drag means something else, e.g. painting a mask or drawing a crop
+  children: React.ReactNode; // laid out at the fitted size; `--editor-zoom` holds the current zoom
+}
+
+interface View {
+  zoom: number; // 1 = fitted to the viewport
+  x: number; // screen position of the content's top-left corner, relative to the viewport
+  y: number;
+}
+
+const MAX_HEIGHT_RATIO = 0.6; // matches the old max-h-[60vh]
+const MIN_ZOOM = 1;
+const WHEEL_ZOOM_SPEED = 0.0015;
+const BUTTON_ZOOM_STEP = 1.5;
+const DRAG_THRESHOLD = 4; // px before a click on a pannable canvas turns into a pan
+const MINIMAP_WIDTH = 120;
+
+type Point = { x: number, y: number };
+
+// Centres content smaller than the viewport and otherwise keeps it covering the viewport
+const clampAxis = (position: number, size: number, viewport: number): number =>
+  size <= viewport ? (viewport - size) / 2 : Math.min(0, Math.max(viewport - size, position));
+
+const isTyping = () => {
+  const element = document.activeElement;
+  return element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement;
+};
+
+/**
+ * A zoomable, pannable viewport for the editor image and its overlays (mask, crop, hotspot).
+ * Everything inside is scaled with a single CSS transform, so overlays that measure themselves
+ * with getBoundingClientRect keep mapping to natural image pixels at any zoom level.
+ * Zoom with the wheel, a trackpad pinch or two fingers; pan by dragging with the middle button,
+ * while holding Space, with two fingers, on the minimap, or with a plain drag when `panOnDrag` is set.
+ */
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ imageWidth, imageHeight, minimapUrl, panOnDrag, children }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewportSize, setViewportSize] = useState<{ width: number, maxHeight: number } | null>(null);
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const pointersRef = useRef(new Map<number, Point>());
+  const panRef = useRef<{ pointerId: number, start: Point, last: Point, isActive: boolean } | null>(null);
+  const pinchRef = useRef<{ distance: number, center: Point } | null>(null);
+  const suppressClickRef = useRef(false);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const measure = () => {
+      // A hidden viewport measures 0 wide; keep the last real size
+      if (viewport.clientWidth > 0) {
+        setViewportSize({ width: viewport.clientWidth, maxHeight: window.innerHeight * MAX_HEIGHT_RATIO });
+      }
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  const fitScale = viewportSize ? Math.min(viewportSize.width / imageWidth, viewportSize.maxHeight / imageHeight) : 0;
+  const contentWidth = imageWidth * fitScale;
+  const contentHeight = imageHeight * fitScale;
+  const viewportWidth = viewportSize?.width ?? 0;
+  const viewportHeight = contentHeight;
+  const actualSizeZoom = fitScale > 0 ? 1 / fitScale : 1; // one image pixel per CSS pixel
+  const maxZoom = Math.max(actualSizeZoom * 4, 8);
+  // Images shown larger than their natural size can zoom out far enough to reach 100%
+  const minZoom = Math.min(MIN_ZOOM, actualSizeZoom);
+
+  const clampView = useCallback((next: View): View => {
+    const zoom = Math.min(maxZoom, Math.max(minZoom, next.zoom));
+    return {
+      zoom,
+      x: clampAxis(next.x, contentWidth * zoom, viewportWidth),
+      y: clampAxis(next.y, contentHeight * zoom, viewportHeight),
+    };
+  }, [minZoom, maxZoom, contentWidth, contentHeight, viewportWidth, viewportHeight]);
+
+  // Re-fit whenever the layout changes, e.g. a crop changed the image's shape or the window resized
+  useEffect(() => {
+    setView(current => clampView(current));
+  }, [clampView]);
+
+  // Zooms so the point under `anchor` (viewport coordinates) stays put
+  const zoomAround = useCallback((zoom: number, anchor: Point) => {
+    setView(current => {
+      const ratio = Math.min(maxZoom, Math.max(minZoom, zoom)) / current.zoom;
+      return clampView({
+        zoom: current.zoom * ratio,
+        x: anchor.x - (anchor.x - current.x) * ratio,
+        y: anchor.y - (anchor.y - current.y) * ratio,
+      });
+    });
+  }, [clampView, minZoom, maxZoom]);
+
+  const toViewportPoint = (clientX: number, clientY: number): Point => {
+    const rect = viewportRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  // React's wheel listener is passive, so the page would scroll as well
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const speed = e.ctrlKey ? WHEEL_ZOOM_SPEED * 8 : WHEEL_ZOOM_SPEED;
+      setView(current => {
+        const zoom = Math.min(maxZoom, Math.max(minZoom, current.zoom * Math.exp(-e.deltaY * speed)));
+        const ratio = zoom / current.zoom;
+        return clampView({ zoom, x: anchor.x - (anchor.x - current.x) * ratio, y: anchor.y - (anchor.y - current.y) * ratio });
+      });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [clampView, minZoom, maxZoom]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isTyping()) {
+        e.preventDefault();
+        setIsSpaceHeld(true);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Runs in the capture phase so a pan or pinch never reaches the mask or crop underneath
+  const handlePointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('[data-editor-control]')) return;
+    // A primary pointer means nothing else is down, even if an earlier pointerup was missed
+    if (e.isPrimary) pointersRef.current.clear();
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointersRef.current.size === 2) {
+      const [a, b] = [...pointersRef.current.values()];
+      pinchRef.current = {
+        distance: Math.hypot(a.x - b.x, a.y - b.y),
+        center: toViewportPoint((a.x + b.x) / 2, (a.y + b.y) / 2),
+      };
+      panRef.current = null;
+      e.stopPropagation();
+      return;
+    }
+
+    const forcesPan = e.button === 1 || isSpaceHeld;
+    if (!forcesPan && !(panOnDrag && e.button === 0)) return;
+    panRef.current = { pointerId: e.pointerId, start: { x: e.clientX, y: e.clientY }, last: { x: e.clientX, y: e.clientY }, isActive: forcesPan };
+    if (forcesPan) {
+      e.preventDefault();
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setIsPanning(true);
+    }
+  };
+
+  const handlePointerMoveCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.size >= 2) {
+      e.stopPropagation();
+      const [a, b] = [...pointersRef.current.values()];
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      const center = toViewportPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+      setView(current => {
+        const zoom = Math.min(maxZoom, Math.max(minZoom, current.zoom * (pinch.distance > 0 ? distance / pinch.distance : 1)));
+        const ratio = zoom / current.zoom;
+        return clampView({
+          zoom,
+          x: center.x - (pinch.center.x - current.x) * ratio,
+          y: center.y - (pinch.center.y - current.y) * ratio,
+        });
+      });
+      pinchRef.current = { distance, center };
+      return;
+    }
+
+    const pan = panRef.current;
+    if (!pan || pan.pointerId !== e.pointerId) return;
+    if (!pan.isActive) {
+      if (Math.hypot(e.clientX - pan.start.x, e.clientY - pan.start.y) < DRAG_THRESHOLD) return;
+      pan.isActive = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setIsPanning(true);
+    }
+    e.stopPropagation();
+    const dx = e.clientX - pan.last.x;
+    const dy = e.clientY - pan.last.y;
+    pan.last = { x: e.clientX, y: e.clientY };
+    setView(current => clampView({ ...current, x: current.x + dx, y: current.y + dy }));
+  };
+
+  const handlePointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+    if (panRef.current?.pointerId === e.pointerId) {
+      // A drag that became a pan shouldn't also count as a click on the image
+      suppressClickRef.current = panRef.current.isActive;
+      panRef.current = null;
+      setIsPanning(false);
+    }
+  };
+
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      e.stopPropagation();
+    }
+  };
+
+  const zoomFromCenter = (zoom: number) => zoomAround(zoom, { x: viewportWidth / 2, y: viewportHeight / 2 });
+
+  // Centres the view on a point picked on the minimap, given as fractions of the image
+  const panToFraction = (fx: number, fy: number) => {
+    setView(current => clampView({
+      ...current,
+      x: viewportWidth / 2 - fx * contentWidth * current.zoom,
+      y: viewportHeight / 2 - fy * contentHeight * current.zoom,
+    }));
+  };
+
+  const handleMinimapPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    panToFraction((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
+  const isZoomed = view.zoom > 1.001;
+  const isFitted = Math.abs(view.zoom - 1) <= 0.001;
+  const visible = {
+    left: Math.max(0, -view.x / (contentWidth * view.zoom)),
+    top: Math.max(0, -view.y / (contentHeight * view.zoom)),
+    width: Math.min(1, viewportWidth / (contentWidth * view.zoom)),
+    height: Math.min(1, viewportHeight / (contentHeight * view.zoom)),
+  };
+  const zoomButtonClass = "px-2.5 py-1 rounded-md text-xs font-semibold text-gray-200 bg-black/60 hover:bg-black/80 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      ref={viewportRef}
+      className={`relative isolate w-full overflow-hidden touch-none ${isPanning ? 'cursor-grabbing' : isSpaceHeld || (panOnDrag && isZoomed) ? 'cursor-grab' : ''}`}
+      style={{ height: viewportHeight || undefined }}
+      onPointerDownCapture={handlePointerDownCapture}
+      onPointerMoveCapture={handlePointerMoveCapture}
+      onPointerUpCapture={handlePointerEnd}
+      onPointerCancelCapture={handlePointerEnd}
+      onClickCapture={handleClickCapture}
+      onAuxClick={(e) => e.button === 1 && e.preventDefault()}
+    >
+      {viewportSize && (
+        <div
+          className="absolute top-0 left-0"
+          style={{
+            width: contentWidth,
+            height: contentHeight,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+            transformOrigin: '0 0',
+            '--editor-zoom': view.zoom,
+          } as React.CSSProperties}
+        >
+          {children}
+        </div>
+      )}
+
+      <div className="absolute top-2 right-2 z-30 flex items-center gap-1" data-editor-control>
+        <button type="button" onClick={() => zoomFromCenter(view.zoom / BUTTON_ZOOM_STEP)} disabled={view.zoom <= minZoom + 0.001} className={zoomButtonClass} aria-label="Zoom out">−</button>
+        <span className="px-1.5 py-1 rounded-md bg-black/60 text-xs tabular-nums text-gray-300 min-w-[3.5rem] text-center">
+          {Math.round(view.zoom / actualSizeZoom * 100)}%
+        </span>
+        <button type="button" onClick={() => zoomFromCenter(view.zoom * BUTTON_ZOOM_STEP)} disabled={view.zoom >= maxZoom} className={zoomButtonClass} aria-label="Zoom in">+</button>
+        <button type="button" onClick={() => setView(clampView({ zoom: 1, x: 0, y: 0 }))} disabled={isFitted} className={zoomButtonClass}>Fit</button>
+        <button type="button" onClick={() => zoomFromCenter(actualSizeZoom)} className={zoomButtonClass}>100%</button>
+      </div>
+
+      {isZoomed && minimapUrl && (
+        <div
+          className="absolute bottom-2 right-2 z-30 rounded-md overflow-hidden border border-gray-600 shadow-lg bg-black/60 cursor-pointer touch-none"
+          style={{ width: MINIMAP_WIDTH, height: MINIMAP_WIDTH * imageHeight / imageWidth }}
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+          aria-label="Minimap"
+          data-editor-control
+        >
+          <img src={minimapUrl} alt="" draggable={false} className="w-full h-full object-fill pointer-events-none" />
+          <div
+            className="absolute border-2 border-cyan-400 bg-cyan-400/10 pointer-events-none"
+            style={{
+              left: `${visible.left * 100}%`,
+              top: `${visible.top * 100}%`,
+              width: `${visible.width * 100}%`,
+              height: `${visible.height * 100}%`,
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EditorCanvas;
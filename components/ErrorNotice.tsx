@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { GenerationError, GenerationErrorKind } from '../types';
+
+interface ErrorNoticeProps {
+  title: string | null; // what was being attempted, e.g. "Failed to apply the filter."
+  error: GenerationError;
+  onDismiss: () => void;
+  onRetry?: () => void;
+  rephrasePrompt?: string; // the prompt that was refused, when it can be edited and re-run
+  onRephrase?: (prompt: string) => void;
+  onUpdateApiKey?: () => void;
+}
+
+const headings: Record<GenerationErrorKind, string> = {
+  'blocked': 'Request Blocked',
+  'safety-stopped': 'Generation Stopped',
+  'no-image-with-text': 'No Image Returned',
+  'no-image': 'No Image Returned',
+  'quota': 'Slow Down a Little',
+  'auth': 'API Key Problem',
+  'network': 'Connection Problem',
+  'invalid-input': 'Check Your Input',
+  'budget': 'Budget Reached',
+  'unknown': 'An Error Occurred',
+};
+
+// Kinds where the wording of the prompt is the likely culprit
+const rephraseKinds: GenerationErrorKind[] = ['blocked', 'safety-stopped', 'no-image-with-text', 'no-image'];
+
+/**
+ * Explains a failure above the editor without hiding the image, with a way out suited to its kind.
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ title, error, onDismiss, onRetry, rephrasePrompt, onRephrase, onUpdateApiKey }) => {
+  const [draftPrompt, setDraftPrompt] = useState(rephrasePrompt ?? '');
+  const canRephrase = rephraseKinds.includes(error.kind) && rephrasePrompt !== undefined && !!onRephrase;
+  const isWarning = error.kind === 'invalid-input' || error.kind === 'quota' || error.kind === 'budget';
+
+  return (
+    <div
+      role="alert"
+      className={`w-full max-w-4xl mx-auto animate-fade-in border p-4 rounded-lg flex flex-col gap-3 backdrop-blur-sm ${isWarning ? 'bg-amber-900/40 border-amber-700/50' : 'bg-red-900/50 border-red-700/50'}`}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-left">
+          <h2 className={`text-lg font-bold ${isWarning ? 'text-amber-300' : 'text-cyan-400'}`}>{headings[error.kind]}</h2>
+          <p className={`text-sm ${isWarning ? 'text-amber-200' : 'text-red-300'}`}>
+            {title && error.kind !== 'invalid-input' ? `${title} ` : ''}{error.kind === 'no-image-with-text' ? 'The model answered with text instead of an image:' : error.message}
+          </p>
+          {error.kind === 'no-image-with-text' && (
+            <blockquote className="mt-2 border-l-2 border-gray-500 pl-3 text-sm text-gray-300 italic">{error.modelText}</blockquote>
+          )}
+        </div>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-white text-xl leading-none" aria-label="Dismiss">×</button>
+      </div>
+
+      {canRephrase && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); if (draftPrompt.trim()) onRephrase!(draftPrompt.trim()); }}
+          className="flex flex-col sm:flex-row items-stretch gap-2"
+        >
+          <input
+            type="text"
+            value={draftPrompt}
+            onChange={(e) => setDraftPrompt(e.target.value)}
+            className="flex-grow bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+            aria-label="Rephrased prompt"
+          />
+          <button
+            type="submit"
+            disabled={!draftPrompt.trim()}
+            className="bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2 px-4 rounded-md text-sm transition-colors disabled:bg-gray-700 disabled:text-gray-400"
+          >
+            Rephrase &amp; Retry
+          </button>
+        </form>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {error.kind === 'auth' && onUpdateApiKey && (
+          <button onClick={onUpdateApiKey} className="bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2 px-4 rounded-md text-sm transition-colors">
+            Enter a New API Key
+          </button>
+        )}
+        {onRetry && error.kind !== 'auth' && error.kind !== 'invalid-input' && (
+          <button onClick={onRetry} className="bg-gray-800/80 border border-gray-700 text-gray-200 hover:bg-gray-700 font-semibold py-2 px-4 rounded-md text-sm transition-colors">
+            Try Again
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorNotice;
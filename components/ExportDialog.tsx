@@ -0,0 +1,284 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { DEFAULT_EXPORT_SETTINGS, downloadBlob, encodeImage, formatExportFilename, isExportFormatSupported, sanitizeFilename } from '../services/imageExport';
+import { createZip } from '../services/zip';
+import type { ExportFormat, ExportSettings, HistoryNode, ImageMetadata } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'export-settings';
+const FORMATS: ExportFormat[] = ['jpeg', 'webp', 'png', 'avif'];
+const LONG_EDGE_PRESETS = [4096, 2048, 1080];
+
+interface ExportDialogProps {
+  nodes: HistoryNode[]; // the whole project, in the order the steps were created
+  currentNodeId: string;
+  projectName: string;
+  metadata: ImageMetadata | null; // from the uploaded photo, if it had any
+  onClose: () => void;
+}
+
+// Keeps only the stored fields that are still valid, so an old or damaged value falls back to the default
+const readStoredSettings = (stored: Partial<Record<keyof ExportSettings, unknown>>): Partial<ExportSettings> => {
+  const settings: Partial<ExportSettings> = {};
+  if (FORMATS.includes(stored.format as ExportFormat)) settings.format = stored.format as ExportFormat;
+  if (typeof stored.quality === 'number' && stored.quality >= 1 && stored.quality <= 100) settings.quality = stored.quality;
+  if (stored.longEdge === null) settings.longEdge = null;
+  if (typeof stored.longEdge === 'number' && Number.isInteger(stored.longEdge) && stored.longEdge > 0) settings.longEdge = stored.longEdge;
+  if (typeof stored.convertToSrgb === 'boolean') settings.convertToSrgb = stored.convertToSrgb;
+  if (typeof stored.filenameTemplate === 'string' && stored.filenameTemplate.trim()) settings.filenameTemplate = stored.filenameTemplate;
+  if (typeof stored.includeMetadata === 'boolean') settings.includeMetadata = stored.includeMetadata;
+  if (typeof stored.stripLocation === 'boolean') settings.stripLocation = stored.stripLocation;
+  return settings;
+};
+
+const loadSettings = (): ExportSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null');
+    return stored && typeof stored === 'object' ? { ...DEFAULT_EXPORT_SETTINGS, ...readStoredSettings(stored) } : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ nodes, currentNodeId, projectName, metadata, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(loadSettings);
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(['png']);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all(FORMATS.map(isExportFormatSupported)).then(results => {
+      setSupportedFormats(FORMATS.filter((_, i) => results[i]));
+    });
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.warn("Could not save the export settings", e);
+    }
+  }, [settings]);
+
+  const updateSettings = (changes: Partial<ExportSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const filenameFor = (node: HistoryNode) => formatExportFilename(settings.filenameTemplate, {
+    name: projectName,
+    step: nodes.indexOf(node) + 1,
+    operation: node.operation,
+    date: new Date(node.createdAt),
+  }, settings.format);
+
+  const currentNode = nodes.find(node => node.id === currentNodeId) ?? nodes[nodes.length - 1];
+  const isFormatSupported = supportedFormats.includes(settings.format);
+  const isBusy = progress !== null;
+
+  // Runs an export, keeping the dialog open with a message if it fails
+  const runExport = async (task: () => Promise<void>) => {
+    setExportError(null);
+    try {
+      await task();
+      onClose();
+    } catch (e) {
+      console.error("Export failed", e);
+      setExportError(e instanceof Error ? e.message : 'The export failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleExportCurrent = () => runExport(async () => {
+    setProgress('Encoding image...');
+    downloadBlob(await encodeImage(currentNode.file, settings, metadata), filenameFor(currentNode));
+  });
+
+  const handleExportAll = () => runExport(async () => {
+    const usedNames = new Set<string>();
+    const entries = [];
+    for (const [index, node] of nodes.entries()) {
+      setProgress(`Encoding step ${index + 1} of ${nodes.length}...`);
+      // Templates without {step} would give every step the same name
+      let name = filenameFor(node);
+      for (let copy = 2; usedNames.has(name); copy++) {
+        name = filenameFor(node).replace(/(\.\w+)$/, `-${copy}$1`);
+      }
+      usedNames.add(name);
+      entries.push({ name, data: await encodeImage(node.file, settings, metadata), modifiedAt: new Date(node.createdAt) });
+    }
+    setProgress('Packing zip...');
+    downloadBlob(await createZip(entries), `${sanitizeFilename(projectName) || 'project'}.zip`);
+  });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={() => !isBusy && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="exportDialogTitle"
+    >
+      <div
+        className="bg-[#1F2937] border border-gray-700 rounded-xl p-6 sm:p-8 max-w-lg w-full shadow-2xl shadow-cyan-500/10 flex flex-col gap-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="exportDialogTitle" className="text-2xl font-bold text-cyan-400 text-center">Export</h2>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-gray-400">Format</span>
+          <div className="grid grid-cols-4 gap-2">
+            {FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => updateSettings({ format })}
+                disabled={isBusy || !supportedFormats.includes(format)}
+                title={supportedFormats.includes(format) ? undefined : "Your browser can't save this format"}
+                className={`uppercase py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed ${
+                  settings.format === format
+                  ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10'
+                  : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {settings.format !== 'png' && (
+          <label className="flex flex-col gap-1">
+            <span className="flex justify-between text-sm text-gray-400">
+              <span>Quality</span>
+              <span className="tabular-nums text-gray-300">{settings.quality}</span>
+            </span>
+            <input
+              type="range"
+              min={1}
+              max={100}
+              value={settings.quality}
+              onChange={(e) => updateSettings({ quality: Number(e.target.value) })}
+              disabled={isBusy}
+              className="w-full accent-cyan-500 disabled:opacity-50"
+            />
+          </label>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-gray-400">Size</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => updateSettings({ longEdge: null })}
+              disabled={isBusy}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${settings.longEdge === null ? 'bg-cyan-500 text-white' : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'}`}
+            >
+              Original
+            </button>
+            {LONG_EDGE_PRESETS.map(size => (
+              <button
+                key={size}
+                onClick={() => updateSettings({ longEdge: size })}
+                disabled={isBusy}
+                className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${settings.longEdge === size ? 'bg-cyan-500 text-white' : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {size}px
+              </button>
+            ))}
+            <input
+              type="number"
+              min={16}
+              placeholder="Long edge"
+              value={settings.longEdge ?? ''}
+              onChange={(e) => updateSettings({ longEdge: e.target.value ? Math.max(16, Math.round(Number(e.target.value))) : null })}
+              disabled={isBusy}
+              className="w-28 bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+              aria-label="Long edge in pixels"
+            />
+          </div>
+          <p className="text-xs text-gray-500">Images are only ever scaled down.</p>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.convertToSrgb}
+            onChange={(e) => updateSettings({ convertToSrgb: e.target.checked })}
+            disabled={isBusy}
+            className="accent-cyan-500"
+          />
+          Convert colours to sRGB (recommended for sharing)
+        </label>
+
+        {metadata && (
+          <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.includeMetadata}
+                onChange={(e) => updateSettings({ includeMetadata: e.target.checked })}
+                disabled={isBusy}
+                className="accent-cyan-500"
+              />
+              Keep the original photo's {[metadata.capturedAt && 'capture date', metadata.description && 'description'].filter(Boolean).join(' and ') || 'metadata'}
+            </label>
+            {metadata.location && (
+              <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.stripLocation}
+                  onChange={(e) => updateSettings({ stripLocation: e.target.checked })}
+                  disabled={isBusy || !settings.includeMetadata}
+                  className="accent-cyan-500"
+                />
+                Strip location data
+              </label>
+            )}
+            {settings.includeMetadata && settings.format !== 'jpeg' && (
+              <p className="text-xs text-gray-500">Metadata is only written to JPEG files.</p>
+            )}
+          </div>
+        )}
+
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-gray-400">File name</span>
+          <input
+            type="text"
+            value={settings.filenameTemplate}
+            onChange={(e) => updateSettings({ filenameTemplate: e.target.value })}
+            disabled={isBusy}
+            className="bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+          />
+          <span className="text-xs text-gray-500">
+            Use {'{name}'}, {'{step}'}, {'{operation}'}, {'{date}'} and {'{time}'}. Preview: <span className="text-gray-300">{filenameFor(currentNode)}</span>
+          </span>
+        </label>
+
+        {exportError && <p className="text-sm text-red-400 text-center">{exportError}</p>}
+        {progress && <p className="text-sm text-gray-400 text-center">{progress}</p>}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button
+            onClick={handleExportAll}
+            disabled={isBusy || !isFormatSupported}
+            className="flex-1 bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-colors hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            All {nodes.length} Steps (.zip)
+          </button>
+          <button
+            onClick={handleExportCurrent}
+            disabled={isBusy || !isFormatSupported}
+            className="flex-1 bg-cyan-500 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:bg-cyan-600 active:scale-95 disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed text-sm"
+          >
+            Export Current Image
+          </button>
+        </div>
+        <button onClick={onClose} disabled={isBusy} className="text-xs text-gray-500 hover:text-gray-300 transition-colors disabled:opacity-50">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
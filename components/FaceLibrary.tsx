@@ -0,0 +1,390 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { listPeople, savePeople, deletePerson, createFacePhoto, matchesPerson, exportFaceLibrary, importFaceLibrary } from '../services/faceLibrary';
+import type { FacePhoto, PersonProfile } from '../types';
+import { PlusIcon, TrashIcon } from './icons';
+
+const MAX_PHOTOS_PER_PERSON = 4;
+
+// A person's thumbnail object URLs, keyed by photo id, with the photos they were made from
+interface ThumbnailEntry {
+    photos: FacePhoto[];
+    urls: Record<string, string>;
+}
+
+interface FaceLibraryProps {
+    onSelectionChange: (profiles: PersonProfile[]) => void;
+    isLoading: boolean;
+}
+
+const FaceLibrary: React.FC<FaceLibraryProps> = ({ onSelectionChange, isLoading }) => {
+    const [profiles, setProfiles] = useState<PersonProfile[]>([]);
+    const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [libraryError, setLibraryError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const photoInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        listPeople()
+            .then(setProfiles)
+            .catch(e => {
+                console.error("Failed to load the face library", e);
+                setLibraryError("Could not load your face library.");
+            });
+    }, []);
+
+    // Object URLs for each person's thumbnails, keyed by person and only rebuilt when their photos change
+    const thumbnailCacheRef = useRef(new Map<string, ThumbnailEntry>());
+
+    useEffect(() => {
+        const cache: Map<string, ThumbnailEntry> = thumbnailCacheRef.current;
+        const revoke = (urls: Record<string, string>) => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+        const profileIds = new Set(profiles.map(profile => profile.id));
+        cache.forEach((entry, id) => {
+            if (profileIds.has(id)) return;
+            revoke(entry.urls);
+            cache.delete(id);
+        });
+        profiles.forEach(profile => {
+            const entry = cache.get(profile.id);
+            if (entry?.photos === profile.photos) return;
+            if (entry) revoke(entry.urls);
+            cache.set(profile.id, {
+                photos: profile.photos,
+                urls: Object.fromEntries(profile.photos.map(photo => [photo.id, URL.createObjectURL(photo.thumbnail)])),
+            });
+        });
+        setThumbnailUrls(Object.assign({}, ...[...cache.values()].map(entry => entry.urls)));
+    }, [profiles]);
+
+    useEffect(() => {
+        const cache: Map<string, ThumbnailEntry> = thumbnailCacheRef.current;
+        return () => {
+            cache.forEach(entry => Object.values(entry.urls).forEach(url => URL.revokeObjectURL(url)));
+            cache.clear();
+        };
+    }, []);
+
+    // Report the selected profiles in the order they were picked, including any edits to them
+    useEffect(() => {
+        onSelectionChange(selectedIds
+            .map(id => profiles.find(profile => profile.id === id))
+            .filter((profile): profile is PersonProfile => !!profile));
+    }, [profiles, selectedIds, onSelectionChange]);
+
+    // Runs a library operation, surfacing failures in the panel instead of losing them to the console
+    const runLibraryTask = async (task: () => Promise<void>, failureMessage: string) => {
+        setLibraryError(null);
+        try {
+            await task();
+        } catch (e) {
+            console.error(failureMessage, e);
+            setLibraryError(e instanceof Error && e.message ? `${failureMessage} ${e.message}` : failureMessage);
+        }
+    };
+
+    // Read through a ref so updates made after an await see the latest profiles
+    const profilesRef = useRef(profiles);
+    profilesRef.current = profiles;
+
+    const updateProfile = (id: string, update: (profile: PersonProfile) => PersonProfile) => {
+        const profile = profilesRef.current.find(p => p.id === id);
+        if (!profile) return;
+        const updated = update(profile);
+        setProfiles(current => current.map(p => p.id === id ? updated : p));
+        runLibraryTask(() => savePeople([updated]), "Could not save this person.");
+    };
+
+    const handleFileAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []).slice(0, MAX_PHOTOS_PER_PERSON);
+        e.target.value = '';
+        if (files.length === 0) return;
+        runLibraryTask(async () => {
+            const profile: PersonProfile = {
+                id: crypto.randomUUID(),
+                name: '',
+                tags: [],
+                photos: await Promise.all(files.map(createFacePhoto)),
+                primaryPhotoIndex: 0,
+                createdAt: Date.now(),
+            };
+            await savePeople([profile]);
+            setProfiles(current => [...current, profile]);
+            setEditingId(profile.id);
+        }, "Could not add this person.");
+    };
+
+    const handlePhotosAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        const profileId = editingId;
+        if (!profileId || files.length === 0) return;
+        runLibraryTask(async () => {
+            const photos = await Promise.all(files.map(createFacePhoto));
+            updateProfile(profileId, profile => ({
+                ...profile,
+                photos: [...profile.photos, ...photos].slice(0, MAX_PHOTOS_PER_PERSON),
+            }));
+        }, "Could not add these photos.");
+    };
+
+    const handleDeletePhoto = (profileId: string, photoIndex: number) => {
+        updateProfile(profileId, profile => {
+            const { primaryPhotoIndex } = profile;
+            return {
+                ...profile,
+                photos: profile.photos.filter((_, i) => i !== photoIndex),
+                primaryPhotoIndex: photoIndex === primaryPhotoIndex ? 0 : primaryPhotoIndex - (photoIndex < primaryPhotoIndex ? 1 : 0),
+            };
+        });
+    };
+
+    // Profiles toggle in and out of the selection; the order they were picked in is kept
+    const handleSelectProfile = (id: string) => {
+        setSelectedIds(ids => ids.includes(id) ? ids.filter(selectedId => selectedId !== id) : [...ids, id]);
+    };
+
+    const handleDeleteProfile = (profile: PersonProfile, e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (!window.confirm(`Remove ${profile.name || 'this person'} and all of their photos from the library?`)) return;
+        runLibraryTask(async () => {
+            await deletePerson(profile.id);
+            setProfiles(current => current.filter(p => p.id !== profile.id));
+            setSelectedIds(ids => ids.filter(id => id !== profile.id));
+            if (editingId === profile.id) setEditingId(null);
+        }, "Could not remove this person.");
+    };
+
+    const handleExport = () => {
+        runLibraryTask(async () => {
+            const file = await exportFaceLibrary(profiles);
+            const url = URL.createObjectURL(file);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = file.name;
+            link.click();
+            URL.revokeObjectURL(url);
+        }, "Could not export the library.");
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        runLibraryTask(async () => {
+            const imported = await importFaceLibrary(file);
+            const importedIds = new Set(imported.map(profile => profile.id));
+            setProfiles(current => [...current.filter(profile => !importedIds.has(profile.id)), ...imported]
+                .sort((a, b) => a.createdAt - b.createdAt));
+        }, "Could not import the library.");
+    };
+
+    const visibleProfiles = profiles.filter(profile => matchesPerson(profile, searchQuery));
+    const editingProfile = profiles.find(profile => profile.id === editingId) ?? null;
+    const allTags = [...new Set(profiles.flatMap(profile => profile.tags))].sort();
+
+    return (
+        <div className="w-full bg-black/30 p-4 rounded-lg border border-gray-800 backdrop-blur-sm flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+                <input
+                    type="search"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search by name or tag"
+                    className="flex-grow bg-gray-900/70 border border-gray-700 text-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                    aria-label="Search the face library"
+                />
+                <input type="file" className="hidden" ref={importInputRef} onChange={handleImport} accept="application/json,.json" />
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isLoading}
+                    className="text-sm font-semibold text-gray-300 bg-white/5 hover:bg-white/10 rounded-md px-3 py-1.5 transition-colors disabled:opacity-50"
+                >
+                    Import
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={isLoading || profiles.length === 0}
+                    className="text-sm font-semibold text-gray-300 bg-white/5 hover:bg-white/10 rounded-md px-3 py-1.5 transition-colors disabled:opacity-50"
+                >
+                    Export
+                </button>
+            </div>
+            {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {allTags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => setSearchQuery(searchQuery === tag ? '' : tag)}
+                            className={`text-xs rounded-full px-2.5 py-0.5 transition-colors ${searchQuery === tag ? 'bg-cyan-500 text-white' : 'bg-white/5 text-gray-400 hover:bg-white/10'}`}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-start gap-3 max-h-80 overflow-y-auto">
+                {visibleProfiles.map(profile => {
+                    const selectionIndex = selectedIds.indexOf(profile.id);
+                    const primaryPhoto = profile.photos[profile.primaryPhotoIndex];
+                    return (
+                        <div key={profile.id} className="w-24 flex flex-col gap-1">
+                            <div
+                                onClick={() => !isLoading && handleSelectProfile(profile.id)}
+                                className={`relative w-24 h-24 rounded-md overflow-hidden cursor-pointer transition-all duration-200 group ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                            >
+                                {thumbnailUrls[primaryPhoto.id] && (
+                                    <img src={thumbnailUrls[primaryPhoto.id]} alt={profile.name || 'Unnamed person'} className="w-full h-full object-cover" />
+                                )}
+                                <div className={`absolute inset-0 ring-inset ring-2 transition-all duration-200 ${selectionIndex !== -1 ? 'ring-cyan-500' : 'ring-transparent group-hover:ring-cyan-500/50'}`}></div>
+                                {selectionIndex !== -1 && (
+                                    <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-cyan-500 text-white text-xs font-bold flex items-center justify-center">
+                                        {selectionIndex + 1}
+                                    </span>
+                                )}
+                                <button
+                                    onClick={(e) => !isLoading && handleDeleteProfile(profile, e)}
+                                    disabled={isLoading}
+                                    className="absolute top-1 right-1 bg-black/60 text-white rounded-full p-1 transition-opacity opacity-0 group-hover:opacity-100 disabled:opacity-0"
+                                    aria-label="Delete person"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); setEditingId(editingId === profile.id ? null : profile.id); }}
+                                    disabled={isLoading}
+                                    className={`absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs py-0.5 transition-opacity ${editingId === profile.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} disabled:opacity-0`}
+                                >
+                                    Edit · {profile.photos.length} photo{profile.photos.length === 1 ? '' : 's'}
+                                </button>
+                            </div>
+                            <p className={`text-xs truncate ${profile.name ? 'text-gray-300' : 'text-gray-500 italic'}`}>{profile.name || 'Unnamed'}</p>
+                        </div>
+                    );
+                })}
+                <input
+                    type="file"
+                    className="hidden"
+                    ref={fileInputRef}
+                    onChange={handleFileAdd}
+                    accept="image/*"
+                    multiple
+                    disabled={isLoading}
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isLoading}
+                    className="w-24 h-24 rounded-md bg-white/5 border-2 border-dashed border-gray-600 flex flex-col items-center justify-center text-gray-400 hover:bg-white/10 hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label="Add a new person"
+                    title="Select one or more photos of the same person"
+                >
+                    <PlusIcon className="w-8 h-8" />
+                    <span className="text-xs mt-1">Add Person</span>
+                </button>
+            </div>
+            {profiles.length === 0 && <p className="text-center text-gray-400 text-sm">Upload a source photo to get started. Several photos of the same person improve the likeness.</p>}
+            {profiles.length > 0 && visibleProfiles.length === 0 && <p className="text-center text-gray-400 text-sm">Nobody matches "{searchQuery}".</p>}
+            {libraryError && <p className="text-center text-red-400 text-sm">{libraryError}</p>}
+
+            {editingProfile && (
+                <div className="pt-3 border-t border-gray-800 flex flex-col gap-3 animate-fade-in">
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            type="text"
+                            key={`name-${editingProfile.id}`}
+                            defaultValue={editingProfile.name}
+                            onBlur={(e) => {
+                                const name = e.target.value.trim();
+                                if (name !== editingProfile.name) updateProfile(editingProfile.id, profile => ({ ...profile, name }));
+                            }}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            placeholder="Name, e.g. Dad"
+                            className="flex-1 bg-gray-900/70 border border-gray-600 text-gray-200 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                            aria-label="Name"
+                            disabled={isLoading}
+                        />
+                        <input
+                            type="text"
+                            key={`tags-${editingProfile.id}`}
+                            defaultValue={editingProfile.tags.join(', ')}
+                            onBlur={(e) => updateProfile(editingProfile.id, profile => ({
+                                ...profile,
+                                tags: e.target.value.split(',').map(tag => tag.trim()).filter((tag, i, all) => tag && all.indexOf(tag) === i),
+                            }))}
+                            placeholder="Tags, comma separated, e.g. family, cousins"
+                            className="flex-1 bg-gray-900/70 border border-gray-600 text-gray-200 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                            aria-label="Tags"
+                            disabled={isLoading}
+                        />
+                    </div>
+                    <p className="text-sm text-gray-400">Reference photos of the same person, ideally from different angles and in different lighting. The primary photo sets the pose.</p>
+                    <div className="flex items-center gap-3">
+                        {editingProfile.photos.map((photo, photoIndex) => {
+                            const isPrimary = photoIndex === editingProfile.primaryPhotoIndex;
+                            return (
+                                <div key={photo.id} className="relative w-20 h-20 rounded-md overflow-hidden group">
+                                    {thumbnailUrls[photo.id] && <img src={thumbnailUrls[photo.id]} alt={`Reference ${photoIndex + 1}`} className="w-full h-full object-cover" />}
+                                    <div className={`absolute inset-0 ring-inset ring-2 ${isPrimary ? 'ring-cyan-500' : 'ring-transparent'}`}></div>
+                                    {isPrimary ? (
+                                        <span className="absolute bottom-0 inset-x-0 bg-cyan-500/80 text-white text-xs py-0.5">Primary</span>
+                                    ) : (
+                                        <button
+                                            onClick={() => updateProfile(editingProfile.id, profile => ({ ...profile, primaryPhotoIndex: photoIndex }))}
+                                            disabled={isLoading}
+                                            className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs py-0.5 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-0"
+                                        >
+                                            Make primary
+                                        </button>
+                                    )}
+                                    {editingProfile.photos.length > 1 && (
+                                        <button
+                                            onClick={() => handleDeletePhoto(editingProfile.id, photoIndex)}
+                                            disabled={isLoading}
+                                            className="absolute top-1 right-1 bg-black/60 text-white rounded-full p-1 transition-opacity opacity-0 group-hover:opacity-100 disabled:opacity-0"
+                                            aria-label="Remove photo"
+                                        >
+                                            <TrashIcon className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {editingProfile.photos.length < MAX_PHOTOS_PER_PERSON && (
+                            <>
+                                <input
+                                    type="file"
+                                    className="hidden"
+                                    ref={photoInputRef}
+                                    onChange={handlePhotosAdd}
+                                    accept="image/*"
+                                    multiple
+                                    disabled={isLoading}
+                                />
+                                <button
+                                    onClick={() => photoInputRef.current?.click()}
+                                    disabled={isLoading}
+                                    className="w-20 h-20 rounded-md bg-white/5 border-2 border-dashed border-gray-600 flex flex-col items-center justify-center text-gray-400 hover:bg-white/10 hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    aria-label="Add reference photos"
+                                >
+                                    <PlusIcon className="w-6 h-6" />
+                                    <span className="text-xs mt-1">Add Photo</span>
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FaceLibrary;
@@ -3,16 +3,34 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { parseCubeLut, assertLutFitsDevice } from '../services/cubeLut';
+import { listLutPresets, saveLutPreset, deleteLutPreset } from '../services/lutStore';
+import type { LutPreset, LutSelection } from '../types';
+import { PlusIcon, TrashIcon } from './icons';
+import PromptPresetLibrary from './PromptPresetLibrary';
 
 interface FilterPanelProps {
   onApplyFilter: (prompt: string) => void;
+  lutSelection: LutSelection | null;
+  onLutSelectionChange: (selection: LutSelection | null) => void;
+  onApplyLut: () => void;
+  previewImage: File | null; // thumbnails for saved presets are made from this
   isLoading: boolean;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) => {
+const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, lutSelection, onLutSelectionChange, onApplyLut, previewImage, isLoading }) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
+  const [lutPresets, setLutPresets] = useState<LutPreset[]>([]);
+  const [lutError, setLutError] = useState<string | null>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listLutPresets()
+      .then(setLutPresets)
+      .catch(e => console.error("Failed to load LUT presets", e));
+  }, []);
 
   const presets = [
     { name: 'Synthwave', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
@@ -39,6 +57,40 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
     }
   };
 
+  const handleLutImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLutError(null);
+    try {
+      const lut = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+      assertLutFitsDevice(lut);
+      const preset: LutPreset = { id: crypto.randomUUID(), name: lut.title, lut, createdAt: Date.now() };
+      await saveLutPreset(preset);
+      setLutPresets(current => [...current, preset]);
+      onLutSelectionChange({ preset, intensity: 100 });
+    } catch (err) {
+      setLutError(err instanceof Error ? err.message : 'Could not read the LUT file.');
+      console.error(err);
+    }
+  };
+
+  const handleLutClick = (preset: LutPreset) => {
+    onLutSelectionChange(lutSelection?.preset.id === preset.id ? null : { preset, intensity: lutSelection?.intensity ?? 100 });
+  };
+
+  const handleLutDelete = async (preset: LutPreset, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await deleteLutPreset(preset.id);
+      setLutPresets(current => current.filter(p => p.id !== preset.id));
+      if (lutSelection?.preset.id === preset.id) onLutSelectionChange(null);
+    } catch (err) {
+      console.error("Failed to delete LUT preset", err);
+    }
+  };
+
   return (
     <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-base font-semibold text-center text-gray-300">Apply a Filter</h3>
@@ -56,6 +108,15 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
         ))}
       </div>
 
+      <PromptPresetLibrary
+        kind="filter"
+        currentPrompt={customPrompt}
+        selectedPrompt={selectedPresetPrompt}
+        onSelect={handlePresetClick}
+        thumbnailSource={previewImage}
+        isLoading={isLoading}
+      />
+
       <input
         type="text"
         value={customPrompt}
@@ -76,6 +137,67 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
           </button>
         </div>
       )}
+
+      <div className="border-t border-gray-800 pt-4 flex flex-col gap-3">
+        <div className="text-center">
+          <h4 className="text-sm font-semibold text-gray-300">LUT Looks</h4>
+          <p className="text-xs text-gray-500">Import a 3D .cube LUT for an exact, repeatable grade. Applied on your device with no AI call.</p>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {lutPresets.map(preset => (
+            <div
+              key={preset.id}
+              onClick={() => !isLoading && handleLutClick(preset)}
+              className={`group relative flex items-center gap-2 text-sm font-semibold py-2 pl-4 pr-2 rounded-md cursor-pointer transition-all duration-200 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''} ${lutSelection?.preset.id === preset.id ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10' : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'}`}
+            >
+              <span className="max-w-[10rem] truncate" title={preset.name}>{preset.name}</span>
+              <button
+                onClick={(e) => !isLoading && handleLutDelete(preset, e)}
+                disabled={isLoading}
+                className="p-1 rounded-full opacity-60 hover:opacity-100 hover:bg-black/30 transition-opacity"
+                aria-label={`Delete ${preset.name}`}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <input type="file" className="hidden" ref={lutInputRef} onChange={handleLutImport} accept=".cube" disabled={isLoading} />
+          <button
+            onClick={() => lutInputRef.current?.click()}
+            disabled={isLoading}
+            className="flex items-center gap-1 text-sm font-semibold py-2 px-4 rounded-md bg-white/5 border border-dashed border-gray-600 text-gray-400 hover:bg-white/10 hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <PlusIcon className="w-4 h-4" />
+            Import .cube
+          </button>
+        </div>
+        {lutError && <p className="text-sm text-red-400 text-center">{lutError}</p>}
+
+        {lutSelection && (
+          <div className="animate-fade-in flex flex-col gap-3">
+            <label className="flex items-center gap-3 text-sm text-gray-400">
+              Intensity
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={lutSelection.intensity}
+                onChange={(e) => onLutSelectionChange({ ...lutSelection, intensity: Number(e.target.value) })}
+                disabled={isLoading}
+                className="flex-grow accent-cyan-500"
+              />
+              <span className="w-10 text-right text-gray-300 tabular-nums">{lutSelection.intensity}%</span>
+            </label>
+            <button
+              onClick={onApplyLut}
+              disabled={isLoading || lutSelection.intensity === 0}
+              className="w-full bg-cyan-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30 hover:bg-cyan-600 active:scale-95 text-base disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+            >
+              Apply LUT
+            </button>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
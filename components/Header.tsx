@@ -3,9 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { SparkleIcon } from './icons';
+import UsageMeter from './UsageMeter';
+import { SparkleIcon, CommandLineIcon } from './icons';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenDebug: () => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ onOpenDebug }) => {
   return (
     <header className="w-full py-4 px-8 border-b border-gray-800 bg-black/50 backdrop-blur-sm sticky top-0 z-50">
       <div className="flex items-center justify-center gap-3">
@@ -14,6 +19,17 @@ const Header: React.FC = () => {
             Memories in Motion: Mack Edition
           </h1>
       </div>
+      <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-1">
+        <UsageMeter />
+        <button
+          onClick={onOpenDebug}
+          className="p-2 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/5 transition-colors"
+          title="Inspect AI calls"
+          aria-label="Inspect AI calls"
+        >
+          <CommandLineIcon className="w-5 h-5" />
+        </button>
+      </div>
     </header>
   );
 };
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { getNode, getChildren, getRootNode, getSiblings, getPathToNode } from '../services/historyTree';
+import type { EditOperation, HistoryNode } from '../types';
+
+interface HistoryPanelProps {
+  nodes: HistoryNode[];
+  currentNodeId: string | null;
+  onSelectNode: (nodeId: string) => void;
+  isLoading: boolean;
+}
+
+export const operationLabels: Record<EditOperation, string> = {
+  upload: 'Original',
+  memory: 'Memory',
+  retouch: 'Retouch',
+  product: 'Product',
+  filter: 'Filter',
+  adjust: 'Adjust',
+  crop: 'Crop',
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ nodes, currentNodeId, onSelectNode, isLoading }) => {
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+
+  // Create and revoke object URLs for every node's image
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    nodes.forEach(node => {
+      urls[node.id] = URL.createObjectURL(node.file);
+    });
+    setThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [nodes]);
+
+  const root = getRootNode(nodes);
+  const currentNode = getNode(nodes, currentNodeId);
+  const activePath = new Set(getPathToNode(nodes, currentNodeId).map(node => node.id));
+  const siblings = currentNode ? getSiblings(nodes, currentNode.id) : [];
+
+  const renderNode = (node: HistoryNode, depth: number, isBranchStart: boolean) => {
+    const isCurrent = node.id === currentNodeId;
+    const isOnPath = activePath.has(node.id);
+    return (
+      <button
+        key={node.id}
+        onClick={() => onSelectNode(node.id)}
+        disabled={isLoading}
+        style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+        className={`w-full flex items-center gap-3 pr-2 py-1.5 rounded-md text-left transition-colors disabled:cursor-not-allowed ${isCurrent ? 'bg-cyan-500/20' : 'hover:bg-white/5'}`}
+        aria-current={isCurrent ? 'step' : undefined}
+      >
+        <span className={`w-3 text-xs ${isOnPath ? 'text-cyan-400' : 'text-gray-600'}`}>{isBranchStart ? '↳' : '│'}</span>
+        {thumbnailUrls[node.id] && (
+          <img src={thumbnailUrls[node.id]} alt="" className={`w-10 h-10 rounded object-cover flex-shrink-0 ring-2 ${isCurrent ? 'ring-cyan-500' : 'ring-transparent'}`} />
+        )}
+        <span className="flex flex-col min-w-0">
+          <span className={`text-sm font-semibold ${isOnPath ? 'text-gray-200' : 'text-gray-500'}`}>{operationLabels[node.operation]}</span>
+          {node.prompt && <span className="text-xs text-gray-500 truncate" title={node.prompt}>{node.prompt}</span>}
+        </span>
+      </button>
+    );
+  };
+
+  // Linear runs stay at the same depth; each fork indents its branches
+  const renderBranch = (node: HistoryNode, depth: number, isBranchStart: boolean): React.ReactNode => {
+    const children = getChildren(nodes, node.id);
+    return (
+      <React.Fragment key={node.id}>
+        {renderNode(node, depth, isBranchStart)}
+        {children.length === 1
+          ? renderBranch(children[0], depth, false)
+          : children.map(child => renderBranch(child, depth + 1, true))}
+      </React.Fragment>
+    );
+  };
+
+  if (!root) return null;
+
+  return (
+    <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-base font-semibold text-center text-gray-300">Edit History</h3>
+
+      {siblings.length > 1 && (
+        <div className="flex flex-col gap-2">
+          <p className="text-sm text-gray-400">Attempts from the same step ({siblings.length})</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {siblings.map((sibling, index) => (
+              <button
+                key={sibling.id}
+                onClick={() => onSelectNode(sibling.id)}
+                disabled={isLoading}
+                className={`flex flex-col gap-1 p-1.5 rounded-md text-left transition-all disabled:cursor-not-allowed ring-2 ${sibling.id === currentNodeId ? 'ring-cyan-500 bg-cyan-500/10' : 'ring-transparent hover:bg-white/5'}`}
+              >
+                {thumbnailUrls[sibling.id] && (
+                  <img src={thumbnailUrls[sibling.id]} alt={`Attempt ${index + 1}`} className="w-full h-32 rounded object-cover" />
+                )}
+                <span className="text-xs font-semibold text-gray-300">Attempt {index + 1} · {operationLabels[sibling.operation]}</span>
+                {sibling.prompt && <span className="text-xs text-gray-500 line-clamp-2" title={sibling.prompt}>{sibling.prompt}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-80 overflow-y-auto flex flex-col gap-0.5">
+        {renderBranch(root, 0, false)}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
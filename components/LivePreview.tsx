@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect } from 'react';
+import type { ImageRenderer, ImageRendererFactory } from '../services/webgl';
+
+interface LivePreviewProps<TParams> {
+  image: File;
+  createRenderer: ImageRendererFactory<TParams>; // must be stable across renders
+  params: TParams;
+  isVisible: boolean;
+}
+
+/**
+ * Renders the current image through a local effect, laid over the editor image.
+ * The canvas is drawn at the image's natural resolution.
+ */
+const LivePreview = <TParams,>({ image, createRenderer, params, isVisible }: LivePreviewProps<TParams>) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<ImageRenderer<TParams> | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    try {
+      rendererRef.current = createRenderer(canvasRef.current);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Live preview is unavailable.');
+    }
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, [createRenderer]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsReady(false);
+    createImageBitmap(image).then(bitmap => {
+      try {
+        if (cancelled || !rendererRef.current) return;
+        rendererRef.current.setImage(bitmap);
+        setIsReady(true);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Live preview is unavailable.');
+      } finally {
+        bitmap.close();
+      }
+    }).catch(e => {
+      if (!cancelled) setError(e instanceof Error ? e.message : 'Could not read the image for the live preview.');
+    });
+    return () => { cancelled = true; };
+  }, [image, createRenderer]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    try {
+      rendererRef.current?.render(params);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Live preview is unavailable.');
+    }
+  }, [isReady, params]);
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none ${isVisible && isReady ? '' : 'hidden'}`}
+      />
+      {isVisible && error && (
+        <p className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-black/70 text-red-300 text-xs px-3 py-1 rounded-md z-20">{error}</p>
+      )}
+    </>
+  );
+};
+
+export default LivePreview;
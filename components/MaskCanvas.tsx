@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import type { BoundingBox, RetouchTool } from '../types';
+
+export interface MaskCanvasHandle {
+  exportMask: () => Promise<File | null>;
+  clear: () => void;
+  selectBox: (box: BoundingBox) => void; // replaces the mask with the box
+}
+
+interface MaskCanvasProps {
+  width: number; // natural width of the image being masked
+  height: number; // natural height of the image being masked
+  tool: RetouchTool;
+  brushSize: number; // in displayed (CSS) pixels
+  onMaskChange: (hasMask: boolean) => void;
+  disabled: boolean;
+}
+
+type Point = { x: number, y: number };
+
+const MASK_COLOR = 'rgb(6, 182, 212)';
+
+// Scans the alpha channel to see whether anything is left on the canvas.
+const hasPaintedPixels = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+/**
+ * A transparent canvas laid over the current image at its natural resolution.
+ * Strokes are kept in image pixels so the exported mask lines up with the source exactly.
+ */
+const MaskCanvas = forwardRef<MaskCanvasHandle, MaskCanvasProps>(({ width, height, tool, brushSize, onMaskChange, disabled }, ref) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const lastPointRef = useRef<Point | null>(null);
+  const lassoPointsRef = useRef<Point[]>([]);
+
+  // A freshly mounted canvas is always empty
+  useEffect(() => {
+    onMaskChange(false);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    exportMask: async () => {
+      const canvas = canvasRef.current;
+      if (!canvas || !hasPaintedPixels(canvas)) return null;
+
+      // Convert the painted overlay into a black-and-white mask: white = edit, black = keep.
+      const output = document.createElement('canvas');
+      output.width = canvas.width;
+      output.height = canvas.height;
+      const ctx = output.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(canvas, 0, 0);
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, output.width, output.height);
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, output.width, output.height);
+
+      return new Promise<File | null>(resolve => {
+        output.toBlob(blob => {
+          resolve(blob ? new File([blob], `mask-${Date.now()}.png`, { type: 'image/png' }) : null);
+        }, 'image/png');
+      });
+    },
+    clear: () => {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      lassoPointsRef.current = [];
+      onMaskChange(false);
+    },
+    selectBox: ({ x, y, width, height }) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(x, y, width, height);
+      lassoPointsRef.current = [];
+      onMaskChange(width > 0 && height > 0);
+    },
+  }), [onMaskChange]);
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const drawSegment = (canvas: HTMLCanvasElement, from: Point, to: Point) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const scale = canvas.width / canvas.getBoundingClientRect().width;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    // Nudge zero-length segments so a single tap still leaves a dot
+    ctx.lineTo(to.x === from.x && to.y === from.y ? to.x + 0.01 : to.x, to.y);
+    ctx.stroke();
+  };
+
+  // Draws the in-progress lasso outline on the preview layer
+  const drawLassoPreview = (points: Point[]) => {
+    const preview = previewRef.current;
+    const ctx = preview?.getContext('2d');
+    if (!preview || !ctx) return;
+    ctx.clearRect(0, 0, preview.width, preview.height);
+    if (points.length < 2) return;
+    const scale = preview.width / preview.getBoundingClientRect().width;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2 * scale;
+    ctx.setLineDash([6 * scale, 4 * scale]);
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+  };
+
+  const fillLasso = (canvas: HTMLCanvasElement, points: Point[]) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx || points.length < 3) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || tool === 'point') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    isDrawingRef.current = true;
+    lastPointRef.current = point;
+
+    if (tool === 'lasso') {
+      lassoPointsRef.current = [point];
+    } else {
+      drawSegment(e.currentTarget, point, point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current || !lastPointRef.current) return;
+    const point = toImagePoint(e);
+
+    if (tool === 'lasso') {
+      lassoPointsRef.current.push(point);
+      drawLassoPreview(lassoPointsRef.current);
+    } else {
+      drawSegment(e.currentTarget, lastPointRef.current, point);
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    lastPointRef.current = null;
+
+    if (tool === 'lasso') {
+      fillLasso(e.currentTarget, lassoPointsRef.current);
+      lassoPointsRef.current = [];
+      drawLassoPreview([]);
+    }
+    onMaskChange(hasPaintedPixels(e.currentTarget));
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl opacity-50 touch-none z-10 ${tool === 'point' ? 'hidden' : 'cursor-crosshair'}`}
+      />
+      <canvas
+        ref={previewRef}
+        width={width}
+        height={height}
+        className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] pointer-events-none z-20 ${tool === 'lasso' ? '' : 'hidden'}`}
+      />
+    </>
+  );
+});
+
+export default MaskCanvas;
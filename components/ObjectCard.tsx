@@ -2,3 +2,52 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import type { DetectedObject } from '../types';
+
+interface ObjectCardProps {
+  object: DetectedObject;
+  imageUrl: string; // the analyzed image, cropped to the object for the preview
+  imageSize: { width: number, height: number };
+  isSelected: boolean;
+  onSelect: (object: DetectedObject) => void;
+  isLoading: boolean;
+}
+
+const PREVIEW_SIZE = 48;
+
+const ObjectCard: React.FC<ObjectCardProps> = ({ object, imageUrl, imageSize, isSelected, onSelect, isLoading }) => {
+  const { box } = object;
+  // Scale the whole image so the box fits the preview, then shift it so the box sits in the middle
+  const scale = PREVIEW_SIZE / Math.max(box.width, box.height);
+  const previewStyle: React.CSSProperties = {
+    width: PREVIEW_SIZE,
+    height: PREVIEW_SIZE,
+    backgroundImage: `url(${imageUrl})`,
+    backgroundSize: `${imageSize.width * scale}px ${imageSize.height * scale}px`,
+    backgroundPosition: `${(PREVIEW_SIZE - box.width * scale) / 2 - box.x * scale}px ${(PREVIEW_SIZE - box.height * scale) / 2 - box.y * scale}px`,
+    backgroundRepeat: 'no-repeat',
+  };
+
+  return (
+    <button
+      onClick={() => onSelect(object)}
+      disabled={isLoading}
+      className={`flex items-center gap-3 p-2 rounded-lg text-left transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed ${
+        isSelected
+        ? 'bg-cyan-500/20 ring-2 ring-cyan-500'
+        : 'bg-gray-800/80 hover:bg-gray-700'
+      }`}
+      aria-pressed={isSelected}
+    >
+      <div className="shrink-0 rounded bg-gray-900" style={previewStyle} />
+      <span className="min-w-0">
+        <span className="block text-sm font-semibold text-gray-200 truncate">{object.label}</span>
+        <span className="block text-xs text-gray-500 tabular-nums">{box.width} × {box.height}</span>
+      </span>
+    </button>
+  );
+};
+
+export default ObjectCard;
@@ -2,3 +2,98 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect } from 'react';
+import { listProducts, deleteProduct } from '../services/productCatalog';
+import type { Product } from '../types';
+import AddProductModal from './AddProductModal';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface ProductSelectorProps {
+  selectedProductId: string | null;
+  onSelectProduct: (product: Product | null) => void;
+  isLoading: boolean;
+}
+
+const ProductSelector: React.FC<ProductSelectorProps> = ({ selectedProductId, onSelectProduct, isLoading }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listProducts()
+      .then(setProducts)
+      .catch(e => console.error("Failed to load the product catalog", e));
+  }, []);
+
+  // Create and revoke object URLs for the thumbnails
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    products.forEach(product => {
+      urls[product.id] = URL.createObjectURL(product.thumbnail);
+    });
+    setThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [products]);
+
+  const handleAdded = (product: Product) => {
+    setProducts(current => [...current, product]);
+    setIsAddOpen(false);
+    onSelectProduct(product);
+  };
+
+  const handleDelete = async (product: Product) => {
+    if (!window.confirm(`Remove "${product.name}" from the catalog?`)) return;
+    setCatalogError(null);
+    try {
+      await deleteProduct(product.id);
+      setProducts(current => current.filter(p => p.id !== product.id));
+      if (product.id === selectedProductId) onSelectProduct(null);
+    } catch (e) {
+      console.error("Failed to delete the product", e);
+      setCatalogError('Could not remove this product.');
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-6 gap-2">
+        {products.map(product => (
+          <div key={product.id} className="relative group">
+            <button
+              onClick={() => onSelectProduct(product.id === selectedProductId ? null : product)}
+              disabled={isLoading}
+              title={product.description || product.name}
+              className={`w-full flex flex-col rounded-md overflow-hidden bg-gray-900/60 ring-2 transition-all disabled:opacity-50 ${product.id === selectedProductId ? 'ring-cyan-500' : 'ring-transparent hover:ring-gray-600'}`}
+              aria-pressed={product.id === selectedProductId}
+            >
+              {thumbnailUrls[product.id] && <img src={thumbnailUrls[product.id]} alt="" className="w-full aspect-square object-contain bg-white/5" />}
+              <span className="text-xs font-semibold text-gray-300 px-2 py-1.5 truncate">{product.name}</span>
+            </button>
+            <button
+              onClick={() => handleDelete(product)}
+              disabled={isLoading}
+              className="absolute top-1 right-1 w-6 h-6 rounded bg-black/60 text-gray-300 hover:bg-red-500/80 flex items-center justify-center opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              aria-label={`Remove ${product.name}`}
+            >
+              <TrashIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setIsAddOpen(true)}
+          disabled={isLoading}
+          className="min-h-[7rem] flex flex-col items-center justify-center gap-1 rounded-md bg-white/5 border border-dashed border-gray-600 text-gray-400 hover:bg-white/10 hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-5 h-5" />
+          <span className="text-xs font-semibold">Add Product</span>
+        </button>
+      </div>
+      {catalogError && <p className="text-sm text-red-400 text-center">{catalogError}</p>}
+      {isAddOpen && <AddProductModal onAdded={handleAdded} onClose={() => setIsAddOpen(false)} />}
+    </div>
+  );
+};
+
+export default ProductSelector;
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { listPromptPresets, savePromptPresets, deletePromptPreset, createPromptPreset, exportPromptPresets, importPromptPresets } from '../services/presetStore';
+import { downloadBlob } from '../services/imageExport';
+import type { PromptPreset, PromptPresetKind } from '../types';
+import { TrashIcon } from './icons';
+
+interface PromptPresetLibraryProps {
+  kind: PromptPresetKind;
+  currentPrompt: string; // the custom prompt that "Save" would store
+  selectedPrompt: string | null;
+  onSelect: (prompt: string) => void;
+  thumbnailSource: File | null; // the image a new preset's thumbnail is made from
+  isLoading: boolean;
+}
+
+const exportFilenames: Record<PromptPresetKind, string> = {
+  filter: 'filter-presets.json',
+  adjustment: 'adjustment-presets.json',
+  scene: 'scene-presets.json',
+};
+
+const PromptPresetLibrary: React.FC<PromptPresetLibraryProps> = ({ kind, currentPrompt, selectedPrompt, onSelect, thumbnailSource, isLoading }) => {
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listPromptPresets(kind)
+      .then(setPresets)
+      .catch(e => console.error("Failed to load presets", e));
+  }, [kind]);
+
+  // Create and revoke object URLs for the thumbnails
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    presets.forEach(preset => {
+      if (preset.thumbnail) urls[preset.id] = URL.createObjectURL(preset.thumbnail);
+    });
+    setThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [presets]);
+
+  // Runs a change to the presets, showing a message under the list if it fails
+  const runPresetTask = async (task: () => Promise<void>, failureMessage: string) => {
+    setPresetError(null);
+    try {
+      await task();
+    } catch (e) {
+      console.error(failureMessage, e);
+      setPresetError(e instanceof Error && e.message ? `${failureMessage} ${e.message}` : failureMessage);
+    }
+  };
+
+  const trimmedPrompt = currentPrompt.trim();
+  const isAlreadySaved = presets.some(preset => preset.prompt === trimmedPrompt);
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name || !trimmedPrompt) return;
+    runPresetTask(async () => {
+      const order = presets.length ? presets[presets.length - 1].order + 1 : 0;
+      const preset = await createPromptPreset(kind, name, trimmedPrompt, thumbnailSource, order);
+      await savePromptPresets([preset]);
+      setPresets(current => [...current, preset]);
+      setPresetName('');
+    }, "Could not save the preset.");
+  };
+
+  // Swaps a preset with its neighbour; both are saved with each other's order
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const other = presets[index + offset];
+    if (!other) return;
+    const moved = { ...presets[index], order: other.order };
+    const swapped = { ...other, order: presets[index].order };
+    runPresetTask(async () => {
+      await savePromptPresets([moved, swapped]);
+      setPresets(current => {
+        const next = [...current];
+        next[index] = swapped;
+        next[index + offset] = moved;
+        return next;
+      });
+    }, "Could not reorder the presets.");
+  };
+
+  const handleDelete = (preset: PromptPreset) => {
+    runPresetTask(async () => {
+      await deletePromptPreset(preset.id);
+      setPresets(current => current.filter(p => p.id !== preset.id));
+    }, "Could not delete the preset.");
+  };
+
+  const handleExport = () => {
+    runPresetTask(async () => {
+      const file = await exportPromptPresets(presets, exportFilenames[kind]);
+      downloadBlob(file, file.name);
+    }, "Could not export the presets.");
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    runPresetTask(async () => {
+      const imported = await importPromptPresets(file);
+      if (!imported.some(preset => preset.kind === kind)) {
+        throw new Error(`The file has no ${kind} presets.`);
+      }
+      setPresets(await listPromptPresets(kind));
+    }, "Could not import the presets.");
+  };
+
+  const smallButtonClass = "text-xs font-semibold text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-gray-300">My Presets</span>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => importInputRef.current?.click()} disabled={isLoading} className={smallButtonClass}>Import</button>
+          <button type="button" onClick={handleExport} disabled={isLoading || presets.length === 0} className={smallButtonClass}>Export</button>
+          <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-500">Save a custom prompt to reuse it later or share it with your team.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {presets.map((preset, index) => (
+            <div
+              key={preset.id}
+              className={`group relative flex flex-col rounded-md overflow-hidden transition-all duration-200 ring-2 ${selectedPrompt === preset.prompt ? 'ring-cyan-500 bg-cyan-500/10' : 'ring-transparent bg-gray-800/80 hover:bg-gray-700'}`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(preset.prompt)}
+                disabled={isLoading}
+                className="flex flex-col text-left disabled:opacity-50 disabled:cursor-not-allowed"
+                title={preset.prompt}
+              >
+                {thumbnailUrls[preset.id] ? (
+                  <img src={thumbnailUrls[preset.id]} alt="" className="w-full h-16 object-cover" />
+                ) : (
+                  <span className="w-full h-16 flex items-center justify-center bg-gray-900/60 text-2xl font-bold text-gray-600">{preset.name.charAt(0).toUpperCase()}</span>
+                )}
+                <span className="px-2 py-1.5 text-sm font-semibold text-gray-200 truncate">{preset.name}</span>
+              </button>
+              <div className="absolute top-1 right-1 flex gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button type="button" onClick={() => handleMove(index, -1)} disabled={isLoading || index === 0} className="w-6 h-6 rounded bg-black/60 text-xs text-gray-200 hover:bg-black/80 disabled:opacity-40" aria-label={`Move ${preset.name} earlier`}>←</button>
+                <button type="button" onClick={() => handleMove(index, 1)} disabled={isLoading || index === presets.length - 1} className="w-6 h-6 rounded bg-black/60 text-xs text-gray-200 hover:bg-black/80 disabled:opacity-40" aria-label={`Move ${preset.name} later`}>→</button>
+                <button type="button" onClick={() => handleDelete(preset)} disabled={isLoading} className="w-6 h-6 rounded bg-black/60 text-gray-200 hover:bg-red-500/80 flex items-center justify-center disabled:opacity-40" aria-label={`Delete ${preset.name}`}>
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {trimmedPrompt && !isAlreadySaved && (
+        // Not a <form>: the library is also shown inside the memory prompt's form
+        <div className="flex items-center gap-2 animate-fade-in">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleSave();
+              }
+            }}
+            placeholder="Name this prompt to save it as a preset"
+            maxLength={40}
+            disabled={isLoading}
+            className="flex-grow bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-60"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isLoading || !presetName.trim()}
+            className="bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-2 px-4 rounded-md transition-colors hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Save Preset
+          </button>
+        </div>
+      )}
+      {presetError && <p className="text-sm text-red-400">{presetError}</p>}
+    </div>
+  );
+};
+
+export default PromptPresetLibrary;
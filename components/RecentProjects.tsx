@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { listSessions, renameSession, deleteSession } from '../services/sessionStore';
+import type { SessionSummary } from '../types';
+import { TrashIcon } from './icons';
+
+interface RecentProjectsProps {
+  onResume: (sessionId: string) => void;
+  isLoading: boolean;
+}
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ onResume, isLoading }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => console.error("Failed to load recent projects", e));
+  }, []);
+
+  // Create and revoke object URLs for the session thumbnails
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    sessions.forEach(session => {
+      if (session.thumbnail) urls[session.id] = URL.createObjectURL(session.thumbnail);
+    });
+    setThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [sessions]);
+
+  const startRename = (session: SessionSummary) => {
+    setRenamingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = async (id: string) => {
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (!name) return;
+    try {
+      await renameSession(id, name);
+      setSessions(current => current.map(s => s.id === id ? { ...s, name } : s));
+    } catch (e) {
+      console.error("Failed to rename project", e);
+    }
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    if (!window.confirm(`Delete "${session.name}" and all of its edits? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+      setSessions(current => current.filter(s => s.id !== session.id));
+    } catch (e) {
+      console.error("Failed to delete project", e);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-4xl mt-10 animate-fade-in">
+      <h2 className="text-lg font-semibold text-gray-300 text-left mb-3">Recent Projects</h2>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+        {sessions.map(session => (
+          <div key={session.id} className="group bg-black/30 border border-gray-800 rounded-lg overflow-hidden backdrop-blur-sm text-left transition-colors hover:border-cyan-500/50">
+            <button
+              onClick={() => onResume(session.id)}
+              disabled={isLoading}
+              className="block w-full h-28 bg-black/40 disabled:cursor-not-allowed"
+              aria-label={`Resume ${session.name}`}
+            >
+              {thumbnailUrls[session.id] && (
+                <img src={thumbnailUrls[session.id]} alt="" className="w-full h-full object-cover" />
+              )}
+            </button>
+            <div className="p-3 flex flex-col gap-1">
+              {renamingId === session.id ? (
+                <input
+                  type="text"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => commitRename(session.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(session.id);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full bg-gray-900/70 border border-gray-600 text-gray-200 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                  aria-label="Project name"
+                  autoFocus
+                />
+              ) : (
+                <p className="text-sm font-semibold text-gray-200 truncate" title={session.name}>{session.name}</p>
+              )}
+              <p className="text-xs text-gray-500">
+                {session.stepCount} {session.stepCount === 1 ? 'step' : 'steps'} · {new Date(session.updatedAt).toLocaleDateString()}
+              </p>
+              <div className="flex items-center gap-2 mt-1">
+                <button
+                  onClick={() => startRename(session)}
+                  disabled={isLoading}
+                  className="text-xs text-gray-400 hover:text-cyan-400 transition-colors disabled:opacity-50"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  disabled={isLoading}
+                  className="ml-auto text-gray-500 hover:text-red-400 transition-colors disabled:opacity-50"
+                  aria-label={`Delete ${session.name}`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentProjects;
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { EMPTY_SCENE_FIELDS, SCENE_FIELD_SUGGESTIONS, describeScene, loadRecentScenes } from '../services/sceneBuilder';
+import type { SceneFields } from '../types';
+
+interface SceneBuilderProps {
+  fields: SceneFields;
+  onFieldsChange: (fields: SceneFields) => void;
+  isLoading: boolean;
+}
+
+const sceneFieldControls: { key: keyof SceneFields, label: string, placeholder: string }[] = [
+  { key: 'activity', label: 'Activity', placeholder: 'What are they doing?' },
+  { key: 'setting', label: 'Setting', placeholder: 'Where are they?' },
+  { key: 'era', label: 'Era', placeholder: 'When is it?' },
+  { key: 'mood', label: 'Mood', placeholder: 'How does it feel?' },
+  { key: 'shot', label: 'Camera Shot', placeholder: 'How is it framed?' },
+  { key: 'lighting', label: 'Lighting', placeholder: 'What lights the scene?' },
+];
+
+const SceneBuilder: React.FC<SceneBuilderProps> = ({ fields, onFieldsChange, isLoading }) => {
+  // Read once: the list only changes when a memory is created, which leaves this screen
+  const [recentScenes] = useState<SceneFields[]>(loadRecentScenes);
+
+  return (
+    <div className="w-full flex flex-col gap-3 bg-black/30 border border-gray-800 rounded-lg p-4 text-left backdrop-blur-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {sceneFieldControls.map(({ key, label, placeholder }) => (
+          <label key={key} className="flex flex-col gap-1 text-sm text-gray-400">
+            {label}
+            <input
+              type="text"
+              list={`scene-${key}-suggestions`}
+              value={fields[key]}
+              onChange={(e) => onFieldsChange({ ...fields, [key]: e.target.value })}
+              placeholder={placeholder}
+              disabled={isLoading}
+              className="bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-60"
+            />
+            <datalist id={`scene-${key}-suggestions`}>
+              {SCENE_FIELD_SUGGESTIONS[key].map(suggestion => <option key={suggestion} value={suggestion} />)}
+            </datalist>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {recentScenes.length > 0 && <span className="text-xs font-semibold text-gray-500">Recent:</span>}
+        {recentScenes.map((scene, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onFieldsChange(scene)}
+            disabled={isLoading}
+            className="max-w-[16rem] truncate text-xs font-semibold py-1.5 px-3 rounded-md bg-gray-800/80 text-gray-300 hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={describeScene(scene)}
+          >
+            {describeScene(scene)}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => onFieldsChange(EMPTY_SCENE_FIELDS)}
+          disabled={isLoading}
+          className="ml-auto text-xs font-semibold text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SceneBuilder;
@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { DEFAULT_SLIDESHOW_SETTINGS, DEFAULT_SLIDE_DURATION, SLIDESHOW_EXTENSIONS, getSlideshowDuration, getSlideshowFrameSize, isSlideshowFormatSupported, renderSlideshow } from '../services/slideshow';
+import { downloadBlob, sanitizeFilename } from '../services/imageExport';
+import { listSessions } from '../services/sessionStore';
+import { isAbortError } from '../services/requestPolicy';
+import type { Slide, SlideshowFormat, SlideshowSettings } from '../types';
+
+// An image that can be added to the slideshow
+export interface SlideSource {
+  id: string;
+  image: File;
+  label: string;
+  caption: string; // the slide's starting caption
+}
+
+const SETTINGS_STORAGE_KEY = 'slideshow-settings';
+const FORMATS: { format: SlideshowFormat, label: string }[] = [
+  { format: 'webm', label: 'WebM video' },
+  { format: 'gif', label: 'GIF' },
+  { format: 'webp', label: 'Animated WebP' },
+];
+const ASPECT_RATIOS: SlideshowSettings['aspectRatio'][] = ['16:9', '1:1', '4:5', '9:16'];
+const LONG_EDGES = [480, 720, 1080];
+
+interface SlideshowDialogProps {
+  sources: SlideSource[]; // from the current project or storyboard, shown first
+  initialSourceIds: string[]; // the sources that start out as slides, in order
+  currentSessionId: string | null; // left out of the saved memories, since its steps are already sources
+  projectName: string;
+  onClose: () => void;
+}
+
+const loadSettings = (): SlideshowSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SLIDESHOW_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SLIDESHOW_SETTINGS;
+  } catch {
+    return DEFAULT_SLIDESHOW_SETTINGS;
+  }
+};
+
+const toSlide = (source: SlideSource): Slide => ({ id: source.id, image: source.image, caption: source.caption, duration: DEFAULT_SLIDE_DURATION });
+
+const SlideshowDialog: React.FC<SlideshowDialogProps> = ({ sources, initialSourceIds, currentSessionId, projectName, onClose }) => {
+  const [settings, setSettings] = useState<SlideshowSettings>(loadSettings);
+  const [supportedFormats, setSupportedFormats] = useState<SlideshowFormat[]>(['gif']);
+  const [memories, setMemories] = useState<SlideSource[]>([]);
+  const [slides, setSlides] = useState<Slide[]>(() => initialSourceIds
+    .map(id => sources.find(source => source.id === id))
+    .filter((source): source is SlideSource => !!source)
+    .map(toSlide));
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<string | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const renderRequestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    Promise.all(FORMATS.map(({ format }) => isSlideshowFormatSupported(format))).then(results => {
+      setSupportedFormats(FORMATS.filter((_, i) => results[i]).map(({ format }) => format));
+    });
+  }, []);
+
+  // Other saved projects, each represented by the step it was left on
+  useEffect(() => {
+    listSessions()
+      .then(sessions => setMemories(sessions
+        .filter(session => session.id !== currentSessionId && session.thumbnail)
+        .map(session => ({ id: `session-${session.id}`, image: session.thumbnail!, label: session.name, caption: '' }))))
+      .catch(e => console.error("Failed to load saved memories", e));
+  }, [currentSessionId]);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Create and revoke object URLs for every thumbnail
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    [...sources, ...memories].forEach(source => {
+      urls[source.id] = URL.createObjectURL(source.image);
+    });
+    setThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [sources, memories]);
+
+  // Stop rendering if the dialog goes away mid-export
+  useEffect(() => () => renderRequestRef.current?.abort(), []);
+
+  const updateSettings = (changes: Partial<SlideshowSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const updateSlide = (id: string, changes: Partial<Slide>) =>
+    setSlides(current => current.map(slide => slide.id === id ? { ...slide, ...changes } : slide));
+
+  const toggleSource = (source: SlideSource) => setSlides(current => current.some(slide => slide.id === source.id)
+    ? current.filter(slide => slide.id !== source.id)
+    : [...current, toSlide(source)]);
+
+  const moveSlide = (index: number, offset: -1 | 1) => setSlides(current => {
+    const next = [...current];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  const isBusy = progress !== null;
+  const isFormatSupported = supportedFormats.includes(settings.format);
+  const duration = getSlideshowDuration(slides, settings);
+  const { width, height } = getSlideshowFrameSize(settings);
+
+  const handleExport = async () => {
+    const request = new AbortController();
+    renderRequestRef.current = request;
+    setRenderError(null);
+    setProgress(settings.format === 'webm' ? 'Recording...' : 'Rendering...');
+    try {
+      const blob = await renderSlideshow(slides, settings, {
+        signal: request.signal,
+        onProgress: fraction => setProgress(`${settings.format === 'webm' ? 'Recording' : 'Rendering'}... ${Math.round(fraction * 100)}%`),
+      });
+      downloadBlob(blob, `${sanitizeFilename(projectName) || 'memories'}-slideshow.${SLIDESHOW_EXTENSIONS[settings.format]}`);
+      onClose();
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Slideshow export failed", e);
+      setRenderError(e instanceof Error ? e.message : 'The slideshow export failed.');
+    } finally {
+      renderRequestRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const optionButtonClass = (isActive: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isActive ? 'bg-cyan-500 text-white' : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'}`;
+
+  const renderSourceGrid = (items: SlideSource[]) => (
+    <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+      {items.map(source => {
+        const position = slides.findIndex(slide => slide.id === source.id);
+        return (
+          <button
+            key={source.id}
+            onClick={() => toggleSource(source)}
+            disabled={isBusy}
+            title={source.label}
+            className={`relative aspect-square rounded-md overflow-hidden ring-2 transition-all disabled:opacity-50 ${position >= 0 ? 'ring-cyan-500' : 'ring-transparent opacity-70 hover:opacity-100'}`}
+          >
+            {thumbnailUrls[source.id] && <img src={thumbnailUrls[source.id]} alt={source.label} className="w-full h-full object-cover" />}
+            {position >= 0 && <span className="absolute top-1 left-1 bg-cyan-500 text-white text-xs font-bold rounded px-1.5">{position + 1}</span>}
+            <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-gray-200 px-1 truncate">{source.label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={() => !isBusy && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="slideshowDialogTitle"
+    >
+      <div
+        className="bg-[#1F2937] border border-gray-700 rounded-xl p-6 sm:p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto shadow-2xl shadow-cyan-500/10 flex flex-col gap-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 id="slideshowDialogTitle" className="text-2xl font-bold text-cyan-400 text-center">Slideshow</h2>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-gray-400">Pick images in the order they should play</span>
+          {renderSourceGrid(sources)}
+          {memories.length > 0 && (
+            <>
+              <span className="text-sm font-medium text-gray-400 mt-2">Saved memories</span>
+              {renderSourceGrid(memories)}
+            </>
+          )}
+        </div>
+
+        {slides.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-medium text-gray-400">Slides · {duration.toFixed(1)}s in total</span>
+            {slides.map((slide, index) => (
+              <div key={slide.id} className="flex items-center gap-2">
+                {thumbnailUrls[slide.id] && <img src={thumbnailUrls[slide.id]} alt="" className="w-10 h-10 rounded object-cover shrink-0" />}
+                <input
+                  type="text"
+                  value={slide.caption}
+                  onChange={(e) => updateSlide(slide.id, { caption: e.target.value })}
+                  placeholder="Caption (optional)"
+                  disabled={isBusy}
+                  className="flex-grow min-w-0 bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                  aria-label={`Caption for slide ${index + 1}`}
+                />
+                <input
+                  type="number"
+                  min={0.5}
+                  max={30}
+                  step={0.5}
+                  value={slide.duration}
+                  onChange={(e) => updateSlide(slide.id, { duration: Math.min(30, Math.max(0.5, Number(e.target.value) || DEFAULT_SLIDE_DURATION)) })}
+                  disabled={isBusy}
+                  className="w-20 bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                  aria-label={`Seconds on screen for slide ${index + 1}`}
+                />
+                <span className="text-xs text-gray-500">s</span>
+                <button onClick={() => moveSlide(index, -1)} disabled={isBusy || index === 0} className="w-7 h-7 rounded bg-gray-800/80 text-gray-300 hover:bg-gray-700 disabled:opacity-40" aria-label={`Move slide ${index + 1} earlier`}>↑</button>
+                <button onClick={() => moveSlide(index, 1)} disabled={isBusy || index === slides.length - 1} className="w-7 h-7 rounded bg-gray-800/80 text-gray-300 hover:bg-gray-700 disabled:opacity-40" aria-label={`Move slide ${index + 1} later`}>↓</button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-gray-400">Format</span>
+          <div className="grid grid-cols-3 gap-2">
+            {FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => updateSettings({ format })}
+                disabled={isBusy || !supportedFormats.includes(format)}
+                title={supportedFormats.includes(format) ? undefined : "Your browser can't save this format"}
+                className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed ${
+                  settings.format === format
+                  ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10'
+                  : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {settings.format === 'webm' && <p className="text-xs text-gray-500">Video is recorded in real time, so exporting takes as long as the slideshow plays.</p>}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-400 mr-1">Shape</span>
+          {ASPECT_RATIOS.map(aspectRatio => (
+            <button key={aspectRatio} onClick={() => updateSettings({ aspectRatio })} disabled={isBusy} className={optionButtonClass(settings.aspectRatio === aspectRatio)}>
+              {aspectRatio}
+            </button>
+          ))}
+          <span className="text-sm font-medium text-gray-400 ml-3 mr-1">Size</span>
+          {LONG_EDGES.map(longEdge => (
+            <button key={longEdge} onClick={() => updateSettings({ longEdge })} disabled={isBusy} className={optionButtonClass(settings.longEdge === longEdge)}>
+              {longEdge}p
+            </button>
+          ))}
+          <span className="text-xs text-gray-500 ml-auto tabular-nums">{width} × {height}</span>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between text-sm text-gray-400">
+            <span>Crossfade</span>
+            <span className="tabular-nums text-gray-300">{settings.crossfade === 0 ? 'Off' : `${settings.crossfade.toFixed(1)}s`}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={settings.crossfade}
+            onChange={(e) => updateSettings({ crossfade: Number(e.target.value) })}
+            disabled={isBusy}
+            className="w-full accent-cyan-500 disabled:opacity-50"
+          />
+        </label>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.kenBurns}
+              onChange={(e) => updateSettings({ kenBurns: e.target.checked })}
+              disabled={isBusy}
+              className="accent-cyan-500"
+            />
+            Slow pan and zoom (Ken Burns)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.showCaptions}
+              onChange={(e) => updateSettings({ showCaptions: e.target.checked })}
+              disabled={isBusy}
+              className="accent-cyan-500"
+            />
+            Show captions
+          </label>
+        </div>
+
+        {renderError && <p className="text-sm text-red-400 text-center">{renderError}</p>}
+        {progress && <p className="text-sm text-gray-400 text-center tabular-nums">{progress}</p>}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button
+            onClick={() => isBusy ? renderRequestRef.current?.abort() : onClose()}
+            className="flex-1 bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-colors hover:bg-gray-700 text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isBusy || !isFormatSupported || slides.length === 0}
+            className="flex-1 bg-cyan-500 text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:bg-cyan-600 active:scale-95 disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed text-sm"
+          >
+            Export {slides.length} Slide{slides.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlideshowDialog;
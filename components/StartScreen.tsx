@@ -4,144 +4,107 @@
 */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon, SparkleIcon, PlusIcon, TrashIcon } from './icons';
-
-interface FaceLibraryProps {
-    onFaceSelect: (faceDataUrl: string | null) => void;
-    isLoading: boolean;
-}
-
-const FaceLibrary: React.FC<FaceLibraryProps> = ({ onFaceSelect, isLoading }) => {
-    const [faces, setFaces] = useState<string[]>([]);
-    const [selectedFace, setSelectedFace] = useState<string | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
-
-    useEffect(() => {
-        try {
-            const storedFaces = localStorage.getItem('dad-memory-faces');
-            if (storedFaces) {
-                setFaces(JSON.parse(storedFaces));
-            }
-        } catch (e) {
-            console.error("Failed to load faces from storage", e);
-        }
-    }, []);
-
-    const saveFacesToStorage = (updatedFaces: string[]) => {
-        try {
-            localStorage.setItem('dad-memory-faces', JSON.stringify(updatedFaces));
-        } catch (e) {
-            console.error("Failed to save faces to storage", e);
-        }
-    };
-
-    const handleFileAdd = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const newFace = event.target?.result as string;
-                if (faces.length < 5) { // Limit to 5 faces for simplicity
-                    const updatedFaces = [...faces, newFace];
-                    setFaces(updatedFaces);
-                    saveFacesToStorage(updatedFaces);
-                } else {
-                    alert("You can store up to 5 faces. Please remove one to add a new one.");
-                }
-            };
-            reader.readAsDataURL(file);
-        }
-    };
-
-    const handleSelectFace = (faceDataUrl: string) => {
-        const newSelection = selectedFace === faceDataUrl ? null : faceDataUrl;
-        setSelectedFace(newSelection);
-        onFaceSelect(newSelection);
-    };
-
-    const handleDeleteFace = (faceToDelete: string, e: React.MouseEvent) => {
-        e.stopPropagation();
-        const updatedFaces = faces.filter(face => face !== faceToDelete);
-        setFaces(updatedFaces);
-        saveFacesToStorage(updatedFaces);
-        if (selectedFace === faceToDelete) {
-            setSelectedFace(null);
-            onFaceSelect(null);
-        }
-    };
-
-    return (
-        <div className="w-full bg-black/30 p-4 rounded-lg border border-gray-800 backdrop-blur-sm">
-            <div className="flex items-center gap-3">
-                {faces.map((face, index) => (
-                    <div
-                        key={index}
-                        onClick={() => !isLoading && handleSelectFace(face)}
-                        className={`relative w-24 h-24 rounded-md overflow-hidden cursor-pointer transition-all duration-200 group ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                        <img src={face} alt={`Face ${index + 1}`} className="w-full h-full object-cover" />
-                         <div className={`absolute inset-0 ring-inset ring-2 transition-all duration-200 ${selectedFace === face ? 'ring-cyan-500' : 'ring-transparent group-hover:ring-cyan-500/50'}`}></div>
-                        <button
-                            onClick={(e) => !isLoading && handleDeleteFace(face, e)}
-                            disabled={isLoading}
-                            className="absolute top-1 right-1 bg-black/60 text-white rounded-full p-1 transition-opacity opacity-0 group-hover:opacity-100 disabled:opacity-0"
-                            aria-label="Delete face"
-                        >
-                            <TrashIcon className="w-4 h-4" />
-                        </button>
-                    </div>
-                ))}
-                {faces.length < 5 && (
-                    <>
-                        <input
-                            type="file"
-                            className="hidden"
-                            ref={fileInputRef}
-                            onChange={handleFileAdd}
-                            accept="image/*"
-                            disabled={isLoading}
-                        />
-                        <button
-                            onClick={() => fileInputRef.current?.click()}
-                            disabled={isLoading}
-                            className="w-24 h-24 rounded-md bg-white/5 border-2 border-dashed border-gray-600 flex flex-col items-center justify-center text-gray-400 hover:bg-white/10 hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                            aria-label="Add a new face"
-                        >
-                            <PlusIcon className="w-8 h-8" />
-                            <span className="text-xs mt-1">Add Face</span>
-                        </button>
-                    </>
-                )}
-            </div>
-             {faces.length === 0 && <p className="text-center text-gray-400 mt-2 text-sm">Upload a source photo to get started.</p>}
-        </div>
-    );
-};
+import RecentProjects from './RecentProjects';
+import FaceLibrary from './FaceLibrary';
+import VariationCountPicker from './VariationCountPicker';
+import PromptPresetLibrary from './PromptPresetLibrary';
+import SceneBuilder from './SceneBuilder';
+import { EMPTY_SCENE_FIELDS, buildScenePrompt, isEmptyScene, rememberScene } from '../services/sceneBuilder';
+import type { PersonProfile, SceneFields, SubjectSelection } from '../types';
+import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon, SparkleIcon, BookIcon } from './icons';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
-  onCreateMemory: (faceDataUrl: string, prompt: string) => void;
+  onCreateMemory: (subjects: SubjectSelection[], prompt: string) => void;
+  onPlanStoryboard: (subjects: SubjectSelection[], story: string, sceneCount: number, style: string) => void;
+  onResumeSession: (sessionId: string) => void;
+  variationCount: number;
+  onVariationCountChange: (count: number) => void;
   isLoading: boolean;
 }
 
-type Tab = 'generate' | 'upload';
+type Tab = 'generate' | 'storyboard' | 'upload';
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory, isLoading }) => {
+const tabLabels: Record<Tab, string> = {
+  generate: 'Create a Memory',
+  storyboard: 'Tell a Story',
+  upload: 'Edit Your Photo',
+};
+
+const STORYBOARD_SCENE_COUNTS = [2, 3, 4, 5, 6, 8];
+const DEFAULT_STORYBOARD_STYLE = 'Cinematic, photorealistic film still with a warm, nostalgic colour grade';
+
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory, onPlanStoryboard, onResumeSession, variationCount, onVariationCountChange, isLoading }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [activeTab, setActiveTab] = useState<Tab>('generate');
   const [prompt, setPrompt] = useState('');
-  const [selectedFace, setSelectedFace] = useState<string | null>(null);
+  const [isSceneBuilderOpen, setIsSceneBuilderOpen] = useState(true);
+  const [sceneFields, setSceneFields] = useState<SceneFields>(EMPTY_SCENE_FIELDS);
+  const [story, setStory] = useState('');
+  const [storySceneCount, setStorySceneCount] = useState(4);
+  const [storyStyle, setStoryStyle] = useState(DEFAULT_STORYBOARD_STYLE);
+  const [selectedProfiles, setSelectedProfiles] = useState<PersonProfile[]>([]);
+  const [subjectNames, setSubjectNames] = useState<Record<string, string>>({});
+  const [subjectThumbnailUrls, setSubjectThumbnailUrls] = useState<Record<string, string>>({});
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+
+  // Names default to the one saved in the library and can be changed just for this memory
+  const subjects: SubjectSelection[] = selectedProfiles.map((profile, index) => ({
+    profile,
+    name: (subjectNames[profile.id] ?? (profile.name || `Person ${index + 1}`)).trim(),
+  }));
+  const hasSubjects = subjects.length > 0;
+  const lowerCaseNames = subjects.map(subject => subject.name.toLowerCase());
+  const namesAreValid = lowerCaseNames.every((name, index) => name && !/[{}]/.test(name) && lowerCaseNames.indexOf(name) === index);
+  const unknownNames = [...prompt.matchAll(/\{([^}]+)\}/g)]
+    .map(match => match[1])
+    .filter(name => !lowerCaseNames.includes(name.trim().toLowerCase()));
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    selectedProfiles.forEach(profile => {
+      urls[profile.id] = URL.createObjectURL(profile.photos[profile.primaryPhotoIndex].thumbnail);
+    });
+    setSubjectThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [selectedProfiles]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onFileSelect(e.target.files);
   };
   
   const handleGenerateClick = () => {
-    if (prompt.trim() && selectedFace && !isLoading) {
-      onCreateMemory(selectedFace, prompt);
+    if (prompt.trim() && hasSubjects && namesAreValid && !isLoading) {
+      if (isSceneBuilderOpen && !isEmptyScene(sceneFields)) rememberScene(sceneFields);
+      onCreateMemory(subjects, prompt);
     }
   }
 
+  const handlePlanStoryboardClick = () => {
+    if (story.trim() && hasSubjects && namesAreValid && !isLoading) {
+      onPlanStoryboard(subjects, story, storySceneCount, storyStyle);
+    }
+  };
+
+  // The builder rewrites the whole description; hand edits last until the next field change
+  const handleSceneFieldsChange = (fields: SceneFields) => {
+    setSceneFields(fields);
+    setPrompt(isEmptyScene(fields) ? '' : buildScenePrompt(fields, subjects.map(subject => subject.name)));
+  };
+
+  // Inserts a {Name} placeholder at the cursor
+  const insertSubjectName = (name: string) => {
+    const textarea = promptRef.current;
+    const token = `{${name}}`;
+    const start = textarea?.selectionStart ?? prompt.length;
+    const end = textarea?.selectionEnd ?? prompt.length;
+    setPrompt(prompt.slice(0, start) + token + prompt.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
   const renderUploadTab = () => (
     <div className="flex flex-col items-center gap-4 animate-fade-in">
         <label htmlFor="image-upload-start" className="relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white bg-cyan-500 rounded-lg cursor-pointer group hover:bg-cyan-600 transition-colors disabled:bg-gray-700 disabled:cursor-not-allowed" aria-disabled={isLoading} >
@@ -159,25 +122,94 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory,
             <p className="text-lg text-gray-300">1. Choose Your Subject.</p>
             <p className="text-sm text-gray-500 mt-2 max-w-xl mx-auto">I built this to give my dad's batshit crazy anecdotes the cinematic treatment they deserved. His stories were legendary, but frankly, they needed visual aids. I never expected this little project to escape the family group chat, let alone connect with so many others.</p>
         </div>
-        <FaceLibrary onFaceSelect={setSelectedFace} isLoading={isLoading} />
-        
+        <FaceLibrary onSelectionChange={setSelectedProfiles} isLoading={isLoading} />
+
+        {hasSubjects && (
+            <div className="w-full flex flex-col gap-2 animate-fade-in">
+                {activeTab === 'storyboard'
+                    ? <p className="text-sm text-gray-400">Name everyone as they're called in the story, so each scene shows the right person.</p>
+                    : <p className="text-sm text-gray-400">Name everyone in the scene, then refer to them in your description, e.g. <span className="text-gray-300">"{'{'}Dad{'}'} teaching {'{'}Lily{'}'} to fish"</span>.</p>}
+                <div className="flex flex-wrap justify-center gap-3">
+                    {subjects.map((subject, index) => (
+                        <div key={subject.profile.id} className="flex items-center gap-2 bg-black/30 border border-gray-800 rounded-lg p-2">
+                            {subjectThumbnailUrls[subject.profile.id] && <img src={subjectThumbnailUrls[subject.profile.id]} alt={`Subject ${index + 1}`} className="w-10 h-10 rounded object-cover" />}
+                            <input
+                                type="text"
+                                value={subjectNames[subject.profile.id] ?? (subject.profile.name || `Person ${index + 1}`)}
+                                onChange={(e) => setSubjectNames(names => ({ ...names, [subject.profile.id]: e.target.value }))}
+                                className="w-28 bg-gray-900/70 border border-gray-600 text-gray-200 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                                aria-label={`Name for subject ${index + 1}`}
+                                disabled={isLoading}
+                            />
+                            {activeTab !== 'storyboard' && (
+                                <button
+                                    type="button"
+                                    onClick={() => insertSubjectName(subject.name)}
+                                    disabled={isLoading || !subject.name}
+                                    className="text-xs font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+                                    title="Insert into description"
+                                >
+                                    + Insert
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                {!namesAreValid && <p className="text-sm text-red-400">Each person needs a unique name without curly braces.</p>}
+            </div>
+        )}
+
+        {activeTab === 'storyboard' ? renderStoryStep() : renderMemoryStep()}
+    </div>
+  );
+
+  const renderMemoryStep = () => (
+    <>
         <div className="w-full text-center mt-4">
             <p className="text-lg text-gray-300">2. Craft Your Alternate Reality.</p>
             <p className="text-sm text-gray-500 mt-2 max-w-xl mx-auto">This tool is powered by the absolute bleeding-edge of AI image generation (a title it will hold for the next 15 minutes, probably). It's here to bring stories to life, give form to questionable ideas, and visualize memories that were previously only available in your imagination's private collection.</p>
         </div>
 
         <form onSubmit={(e) => { e.preventDefault(); handleGenerateClick(); }} className="w-full flex flex-col items-center gap-4 mt-2">
+            <div className="w-full flex items-center justify-between gap-2">
+                <span className="text-sm text-gray-400">{isSceneBuilderOpen ? 'Pick the pieces of your scene, then tweak the description below.' : 'Describe your scene in your own words.'}</span>
+                <button
+                    type="button"
+                    onClick={() => setIsSceneBuilderOpen(open => !open)}
+                    className="shrink-0 text-xs font-semibold text-cyan-400 hover:text-cyan-300"
+                >
+                    {isSceneBuilderOpen ? 'Write it myself' : 'Use the scene builder'}
+                </button>
+            </div>
+            {isSceneBuilderOpen && (
+                <SceneBuilder fields={sceneFields} onFieldsChange={handleSceneFieldsChange} isLoading={isLoading || !hasSubjects} />
+            )}
             <textarea
+                ref={promptRef}
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
-                placeholder={selectedFace ? "e.g., A high definition cinematic mid-shot photograph of a man feeling calm and relaxed while he is fishing on a boat in stormy seas." : "After you have selected a photo above, describe your scene in precise detail"}
+                placeholder={hasSubjects ? "e.g., A high definition cinematic mid-shot photograph of {Person 1} feeling calm and relaxed while he is fishing on a boat in stormy seas." : "After you have selected one or more photos above, describe your scene in precise detail"}
                 className="w-full bg-[#1F2937]/70 border border-gray-700 text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-cyan-500 focus:outline-none transition h-28 resize-none disabled:opacity-60 backdrop-blur-sm"
-                disabled={isLoading || !selectedFace}
+                disabled={isLoading || !hasSubjects}
                 aria-label="Image generation prompt"
             />
+            {unknownNames.length > 0 && (
+                <p className="text-sm text-amber-400 -mt-2">Nobody selected is named {unknownNames.map(name => `{${name}}`).join(', ')}. Check the spelling or rename a subject.</p>
+            )}
+            <div className="w-full text-left">
+                <PromptPresetLibrary
+                    kind="scene"
+                    currentPrompt={prompt}
+                    selectedPrompt={prompt}
+                    onSelect={setPrompt}
+                    thumbnailSource={null}
+                    isLoading={isLoading}
+                />
+            </div>
+            <VariationCountPicker count={variationCount} onCountChange={onVariationCountChange} isLoading={isLoading} />
             <button
                 type="submit"
-                disabled={isLoading || !prompt.trim() || !selectedFace}
+                disabled={isLoading || !prompt.trim() || !hasSubjects || !namesAreValid}
                 className="w-full max-w-sm relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white bg-cyan-500 rounded-lg group transition-all duration-300 ease-in-out hover:bg-cyan-600 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30"
             >
                 <SparkleIcon className="w-6 h-6 mr-3" />
@@ -187,7 +219,63 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory,
                 So, in the spirit of that first gift, this tool is now free for everyone. It's expensive to run, but the results are priceless. I only hope you'll use it to create some special memories of your own, you magnificent, cheap bastards. - CM
             </p>
         </form>
-    </div>
+    </>
+  );
+
+  const renderStoryStep = () => (
+    <>
+        <div className="w-full text-center mt-4">
+            <p className="text-lg text-gray-300">2. Tell the Story.</p>
+            <p className="text-sm text-gray-500 mt-2 max-w-xl mx-auto">Paste the anecdote the way it gets told at every family dinner. It's split into scenes you can edit before any panel is drawn.</p>
+        </div>
+
+        <form onSubmit={(e) => { e.preventDefault(); handlePlanStoryboardClick(); }} className="w-full flex flex-col items-center gap-4 mt-2">
+            <textarea
+                value={story}
+                onChange={(e) => setStory(e.target.value)}
+                placeholder={hasSubjects ? "e.g., The summer of '78, Dad decided he could catch a marlin from a rowing boat..." : "After you have selected one or more photos above, write the story here"}
+                className="w-full bg-[#1F2937]/70 border border-gray-700 text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-cyan-500 focus:outline-none transition h-40 resize-y disabled:opacity-60 backdrop-blur-sm"
+                disabled={isLoading || !hasSubjects}
+                aria-label="Story to storyboard"
+            />
+            <label className="w-full flex flex-col gap-1 text-left text-sm text-gray-400">
+                Visual style
+                <input
+                    type="text"
+                    value={storyStyle}
+                    onChange={(e) => setStoryStyle(e.target.value)}
+                    disabled={isLoading || !hasSubjects}
+                    className="bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-60"
+                />
+            </label>
+            <div className="flex items-center justify-center gap-2">
+                <span className="text-sm font-medium text-gray-400">Scenes:</span>
+                {STORYBOARD_SCENE_COUNTS.map(count => (
+                    <button
+                        key={count}
+                        type="button"
+                        onClick={() => setStorySceneCount(count)}
+                        disabled={isLoading}
+                        className={`w-9 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+                            storySceneCount === count
+                            ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10'
+                            : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+                        }`}
+                    >
+                        {count}
+                    </button>
+                ))}
+            </div>
+            <button
+                type="submit"
+                disabled={isLoading || !story.trim() || !hasSubjects || !namesAreValid}
+                className="w-full max-w-sm relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white bg-cyan-500 rounded-lg group transition-all duration-300 ease-in-out hover:bg-cyan-600 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30"
+            >
+                <BookIcon className="w-6 h-6 mr-3" />
+                Plan Storyboard
+            </button>
+        </form>
+    </>
   );
 
   return (
@@ -214,8 +302,8 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory,
           You might know this app by its original, financially-panicked name, "Rope"—because we were pretty sure we were tying a noose around our own wallets. What started as a birthday gift for my Dad is now... your problem. Upload a photo, describe a scene, and let an AI do all the hard work.
         </p>
 
-        <div className="mt-6 w-full max-w-md bg-black/30 border border-gray-800 rounded-lg p-1.5 flex items-center justify-center gap-1 backdrop-blur-sm">
-            {(['generate', 'upload'] as Tab[]).map(tab => (
+        <div className="mt-6 w-full max-w-xl bg-black/30 border border-gray-800 rounded-lg p-1.5 flex items-center justify-center gap-1 backdrop-blur-sm">
+            {(['generate', 'storyboard', 'upload'] as Tab[]).map(tab => (
                 <button
                     key={tab}
                     onClick={() => setActiveTab(tab)}
@@ -225,8 +313,8 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory,
                         : 'text-gray-300 hover:text-white hover:bg-white/5'
                     }`}
                 >
-                    {tab === 'generate' ? <SparkleIcon className="w-5 h-5" /> : <UploadIcon className="w-5 h-5" />}
-                    {tab === 'generate' ? 'Create a Memory' : 'Edit Your Photo'}
+                    {tab === 'generate' ? <SparkleIcon className="w-5 h-5" /> : tab === 'storyboard' ? <BookIcon className="w-5 h-5" /> : <UploadIcon className="w-5 h-5" />}
+                    {tabLabels[tab]}
                 </button>
             ))}
         </div>
@@ -235,6 +323,8 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory,
             {activeTab === 'upload' ? renderUploadTab() : renderGenerateTab()}
         </div>
 
+        <RecentProjects onResume={onResumeSession} isLoading={isLoading} />
+
         <div className="mt-20 w-full">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 <div className="bg-black/30 p-6 rounded-xl border border-gray-800 flex flex-col items-center text-center backdrop-blur-sm transition-all duration-300 hover:border-cyan-500/50 hover:bg-black/50">
@@ -242,7 +332,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onCreateMemory,
                        <MagicWandIcon className="w-6 h-6 text-cyan-400" />
                     </div>
                     <h3 className="text-xl font-bold text-gray-100">Precise Retouching</h3>
-                    <p className="mt-2 text-gray-400 text-sm">Click any point on your image to remove blemishes, change colors, or add elements with godlike precision.</p>
+                    <p className="mt-2 text-gray-400 text-sm">Click any point or paint a mask over your image to remove blemishes, change colors, or add elements with godlike precision.</p>
                 </div>
                 <div className="bg-black/30 p-6 rounded-xl border border-gray-800 flex flex-col items-center text-center backdrop-blur-sm transition-all duration-300 hover:border-cyan-500/50 hover:bg-black/50">
                     <div className="flex items-center justify-center w-12 h-12 bg-gray-900 border border-gray-700 rounded-full mb-4">
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import Spinner from './Spinner';
+import type { Storyboard, StoryboardPanel } from '../types';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface StoryboardViewProps {
+  storyboard: Storyboard;
+  onStoryboardChange: (storyboard: Storyboard) => void;
+  onGeneratePanels: (panelIds: string[] | null) => void; // null generates every panel without an image
+  generatingPanelId: string | null;
+  onClose: () => void;
+  onExportSlideshow: () => void;
+  isLoading: boolean;
+  cancelButton: React.ReactNode;
+}
+
+// Owns its object URL, so editing a caption doesn't reload every panel's image
+const PanelImage: React.FC<{ image: File, alt: string }> = ({ image, alt }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+
+  return url ? <img src={url} alt={alt} className="w-full h-full object-cover" /> : null;
+};
+
+const StoryboardView: React.FC<StoryboardViewProps> = ({ storyboard, onStoryboardChange, onGeneratePanels, generatingPanelId, onClose, onExportSlideshow, isLoading, cancelButton }) => {
+  const { panels } = storyboard;
+  const missingCount = panels.filter(panel => !panel.image).length;
+  const hasImages = missingCount < panels.length;
+
+  const updatePanels = (update: (panels: StoryboardPanel[]) => StoryboardPanel[]) => onStoryboardChange({ ...storyboard, panels: update(panels) });
+
+  const updatePanel = (id: string, changes: Partial<StoryboardPanel>) =>
+    updatePanels(current => current.map(panel => panel.id === id ? { ...panel, ...changes } : panel));
+
+  const movePanel = (index: number, offset: -1 | 1) => updatePanels(current => {
+    const next = [...current];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  const handleDeletePanel = (panel: StoryboardPanel) => {
+    if (panel.image && !window.confirm('Delete this panel and its image?')) return;
+    updatePanels(current => current.filter(p => p.id !== panel.id));
+  };
+
+  const handleAddPanel = () => updatePanels(current => [...current, { id: crypto.randomUUID(), prompt: '', caption: '', image: null }]);
+
+  const handleClose = () => {
+    if (hasImages && !window.confirm('Close the storyboard? Its panels are not saved.')) return;
+    onClose();
+  };
+
+  const subjectNames = storyboard.subjects.map(subject => `{${subject.name}}`).join(', ');
+
+  return (
+    <div className="w-full max-w-6xl mx-auto flex flex-col gap-6 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="flex-grow">
+          <h2 className="text-2xl font-bold text-gray-100">Storyboard</h2>
+          <p className="text-sm text-gray-400 mt-1">Edit the scenes, then generate the panels. Refer to people as {subjectNames}.</p>
+        </div>
+        {hasImages && (
+          <button
+            onClick={onExportSlideshow}
+            disabled={isLoading}
+            className="bg-gray-800/80 border border-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors hover:bg-gray-700 hover:text-white active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Slideshow...
+          </button>
+        )}
+        <button
+          onClick={handleClose}
+          disabled={isLoading}
+          className="bg-gray-800/80 border border-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors hover:bg-gray-700 hover:text-white active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Close Storyboard
+        </button>
+      </div>
+
+      <label className="flex flex-col gap-1 text-sm text-gray-400">
+        Visual style, shared by every panel
+        <input
+          type="text"
+          value={storyboard.style}
+          onChange={(e) => onStoryboardChange({ ...storyboard, style: e.target.value })}
+          disabled={isLoading}
+          className="bg-[#1F2937]/70 border border-gray-700 text-gray-200 rounded-lg px-4 py-3 text-base focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-60"
+        />
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {panels.map((panel, index) => (
+          <div key={panel.id} className="bg-black/30 border border-gray-800 rounded-lg p-3 flex flex-col gap-3 backdrop-blur-sm">
+            <div className="relative aspect-[4/3] rounded-md overflow-hidden bg-gray-900/60 flex items-center justify-center">
+              {panel.image && <PanelImage image={panel.image} alt={panel.caption || `Panel ${index + 1}`} />}
+              {!panel.image && generatingPanelId !== panel.id && <span className="text-sm text-gray-500">Not generated yet</span>}
+              {generatingPanelId === panel.id && (
+                <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                  <Spinner />
+                </div>
+              )}
+              <span className="absolute top-2 left-2 bg-black/60 text-gray-200 text-xs font-bold rounded px-2 py-1">{index + 1}</span>
+            </div>
+            <input
+              type="text"
+              value={panel.caption}
+              onChange={(e) => updatePanel(panel.id, { caption: e.target.value })}
+              placeholder="Caption"
+              disabled={isLoading}
+              className="bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-3 py-2 text-sm font-semibold focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-60"
+              aria-label={`Caption for panel ${index + 1}`}
+            />
+            <textarea
+              value={panel.prompt}
+              onChange={(e) => updatePanel(panel.id, { prompt: e.target.value })}
+              placeholder="Describe this scene"
+              disabled={isLoading}
+              className="bg-gray-900/70 border border-gray-600 text-gray-300 rounded-md px-3 py-2 text-sm h-24 resize-none focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-60"
+              aria-label={`Scene description for panel ${index + 1}`}
+            />
+            <div className="flex items-center gap-2">
+              <button onClick={() => movePanel(index, -1)} disabled={isLoading || index === 0} className="w-8 h-8 rounded-md bg-gray-800/80 text-gray-300 hover:bg-gray-700 disabled:opacity-40" aria-label={`Move panel ${index + 1} earlier`}>←</button>
+              <button onClick={() => movePanel(index, 1)} disabled={isLoading || index === panels.length - 1} className="w-8 h-8 rounded-md bg-gray-800/80 text-gray-300 hover:bg-gray-700 disabled:opacity-40" aria-label={`Move panel ${index + 1} later`}>→</button>
+              <button onClick={() => handleDeletePanel(panel)} disabled={isLoading} className="w-8 h-8 rounded-md bg-gray-800/80 text-gray-300 hover:bg-red-500/80 flex items-center justify-center disabled:opacity-40" aria-label={`Delete panel ${index + 1}`}>
+                <TrashIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onGeneratePanels([panel.id])}
+                disabled={isLoading || !panel.prompt.trim()}
+                className="ml-auto bg-gray-800/80 border border-gray-700 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-colors hover:bg-gray-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {panel.image ? 'Regenerate' : 'Generate'}
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={handleAddPanel}
+          disabled={isLoading}
+          className="min-h-[12rem] flex flex-col items-center justify-center gap-2 rounded-lg bg-white/5 border border-dashed border-gray-600 text-gray-400 hover:bg-white/10 hover:border-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-6 h-6" />
+          <span className="text-sm font-semibold">Add Panel</span>
+        </button>
+      </div>
+
+      <div className="flex flex-col items-center gap-3">
+        <button
+          onClick={() => onGeneratePanels(null)}
+          disabled={isLoading || missingCount === 0 || panels.some(panel => !panel.image && !panel.prompt.trim())}
+          className="w-full max-w-sm bg-cyan-500 text-white font-bold py-4 px-8 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30 hover:bg-cyan-600 active:scale-95 text-lg disabled:bg-gray-700 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          {missingCount === 0 ? 'All Panels Generated' : `Generate ${missingCount} Panel${missingCount === 1 ? '' : 's'}`}
+        </button>
+        {isLoading && cancelButton}
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardView;
@@ -2,3 +2,77 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import type { RetouchTool } from '../types';
+import { BullseyeIcon, BrushIcon, EraserIcon, LassoIcon } from './icons';
+
+interface ToolOptionsProps {
+  tool: RetouchTool;
+  onToolChange: (tool: RetouchTool) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  onClearMask: () => void;
+  hasMask: boolean;
+  isLoading: boolean;
+}
+
+const tools: { name: RetouchTool, label: string, Icon: React.FC<{ className?: string }> }[] = [
+  { name: 'point', label: 'Point', Icon: BullseyeIcon },
+  { name: 'brush', label: 'Brush', Icon: BrushIcon },
+  { name: 'eraser', label: 'Eraser', Icon: EraserIcon },
+  { name: 'lasso', label: 'Lasso', Icon: LassoIcon },
+];
+
+const ToolOptions: React.FC<ToolOptionsProps> = ({ tool, onToolChange, brushSize, onBrushSizeChange, onClearMask, hasMask, isLoading }) => {
+  const showBrushSize = tool === 'brush' || tool === 'eraser';
+
+  return (
+    <div className="w-full flex flex-wrap items-center justify-center gap-2">
+      {tools.map(({ name, label, Icon }) => (
+        <button
+          key={name}
+          onClick={() => onToolChange(name)}
+          disabled={isLoading}
+          className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+            tool === name
+            ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10'
+            : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+          }`}
+          aria-pressed={tool === name}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
+
+      {showBrushSize && (
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-400 ml-2">
+          Size
+          <input
+            type="range"
+            min={4}
+            max={150}
+            value={brushSize}
+            onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+            disabled={isLoading}
+            className="w-32 accent-cyan-500"
+          />
+          <span className="w-8 text-right text-gray-300">{brushSize}</span>
+        </label>
+      )}
+
+      {tool !== 'point' && (
+        <button
+          onClick={onClearMask}
+          disabled={isLoading || !hasMask}
+          className="px-4 py-2 rounded-md text-sm font-semibold bg-transparent border border-gray-700 text-gray-300 transition-colors hover:bg-gray-800/80 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear Mask
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ToolOptions;
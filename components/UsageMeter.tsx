@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { getUsageEntries, subscribeToUsage, resetUsage, summarizeUsage, loadUsageBudget, saveUsageBudget, isBudgetReached, formatCost, type UsageTotals } from '../services/usageLedger';
+import type { UsageBudget, UsageEntry } from '../types';
+
+const BUDGET_MODES: { mode: UsageBudget['mode'], label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'soft', label: 'Warn' },
+  { mode: 'hard', label: 'Block' },
+];
+
+/**
+ * Running totals and estimated cost for the browser session, with the budget settings in a dropdown.
+ */
+const UsageMeter: React.FC = () => {
+  const [entries, setEntries] = useState<UsageEntry[]>(getUsageEntries);
+  const [budget, setBudget] = useState<UsageBudget>(loadUsageBudget);
+  const [isOpen, setIsOpen] = useState(false);
+  // The limit as typed, only saved on blur or Enter so clearing the field never saves a tiny budget
+  const [limitDraft, setLimitDraft] = useState<string>(() => String(budget.limitUsd));
+
+  useEffect(() => subscribeToUsage(setEntries), []);
+
+  const totals: UsageTotals = useMemo(() => summarizeUsage(entries), [entries]);
+  const isReached = isBudgetReached(budget, entries);
+  const operations = Object.entries(totals.byOperation).sort(([, a], [, b]) => b.costUsd - a.costUsd || b.calls - a.calls);
+
+  const updateBudget = (changes: Partial<UsageBudget>) => {
+    const next = { ...budget, ...changes };
+    setBudget(next);
+    saveUsageBudget(next);
+  };
+
+  const commitLimitDraft = () => {
+    const limitUsd = Number(limitDraft);
+    if (limitDraft.trim() && Number.isFinite(limitUsd) && limitUsd > 0) {
+      updateBudget({ limitUsd: Math.max(0.01, limitUsd) });
+      setLimitDraft(String(Math.max(0.01, limitUsd)));
+    } else {
+      setLimitDraft(String(budget.limitUsd));
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Reset the usage totals for this session?')) return;
+    resetUsage();
+  };
+
+  const meterColor = !isReached ? 'text-gray-400 hover:text-gray-200' : budget.mode === 'hard' ? 'text-red-400' : 'text-amber-300';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`px-2 py-1.5 rounded-md text-sm font-semibold tabular-nums hover:bg-white/5 transition-colors ${meterColor}`}
+        title="Estimated AI usage this session"
+        aria-expanded={isOpen}
+      >
+        {totals.calls} {totals.calls === 1 ? 'call' : 'calls'} · {formatCost(totals.costUsd)}
+        {budget.mode !== 'off' && <span className="text-gray-500 font-normal"> / {formatCost(budget.limitUsd)}</span>}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-80 bg-[#1F2937] border border-gray-700 rounded-lg p-4 shadow-2xl shadow-cyan-500/10 flex flex-col gap-4 animate-fade-in">
+            <div>
+              <h2 className="text-base font-bold text-gray-100">Usage this session</h2>
+              <p className="text-xs text-gray-500 mt-1">
+                Costs are estimates from token counts and list prices. Check your Google AI billing for exact charges.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="bg-gray-900/60 rounded-md py-2">
+                <span className="block text-lg font-bold text-gray-100 tabular-nums">{totals.calls}</span>
+                <span className="text-xs text-gray-500">calls</span>
+              </div>
+              <div className="bg-gray-900/60 rounded-md py-2">
+                <span className={`block text-lg font-bold tabular-nums ${totals.failed > 0 ? 'text-red-300' : 'text-gray-100'}`}>{totals.failed}</span>
+                <span className="text-xs text-gray-500">failed</span>
+              </div>
+              <div className="bg-gray-900/60 rounded-md py-2">
+                <span className="block text-lg font-bold text-cyan-400 tabular-nums">{formatCost(totals.costUsd)}</span>
+                <span className="text-xs text-gray-500">estimated</span>
+              </div>
+            </div>
+
+            {operations.length > 0 && (
+              <table className="w-full text-xs text-gray-300">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="font-semibold pb-1">Operation</th>
+                    <th className="font-semibold pb-1 text-right">Calls</th>
+                    <th className="font-semibold pb-1 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="tabular-nums">
+                  {operations.map(([operation, { calls, failed, costUsd }]) => (
+                    <tr key={operation}>
+                      <td className="py-0.5 capitalize">{operation}</td>
+                      <td className="py-0.5 text-right">{calls}{failed > 0 && <span className="text-red-300"> ({failed} failed)</span>}</td>
+                      <td className="py-0.5 text-right">{formatCost(costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {totals.promptTokens + totals.outputTokens > 0 && (
+              <p className="text-xs text-gray-500 tabular-nums">
+                {totals.promptTokens.toLocaleString()} input and {totals.outputTokens.toLocaleString()} output tokens
+              </p>
+            )}
+
+            <div className="flex flex-col gap-2">
+              <span className="text-sm font-medium text-gray-400">Budget</span>
+              <div className="grid grid-cols-3 gap-2">
+                {BUDGET_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => updateBudget({ mode })}
+                    className={`py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+                      budget.mode === mode
+                      ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10'
+                      : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {budget.mode !== 'off' && (
+                <label className="flex items-center gap-2 text-sm text-gray-400">
+                  {budget.mode === 'soft' ? 'Warn at' : 'Stop at'} $
+                  <input
+                    type="number"
+                    min={0.01}
+                    step={0.5}
+                    value={limitDraft}
+                    onChange={(e) => setLimitDraft(e.target.value)}
+                    onBlur={commitLimitDraft}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitLimitDraft(); }}
+                    className="w-24 bg-gray-900/70 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                    aria-label="Budget in US dollars"
+                  />
+                </label>
+              )}
+              {isReached && (
+                <p className={`text-xs ${budget.mode === 'hard' ? 'text-red-300' : 'text-amber-300'}`}>
+                  {budget.mode === 'hard' ? 'Budget reached. New generations are blocked until you raise it.' : "Budget reached. You'll be warned before the next generation."}
+                </p>
+              )}
+            </div>
+
+            <button
+              onClick={handleReset}
+              disabled={totals.calls === 0}
+              className="text-xs text-gray-500 hover:text-gray-300 transition-colors self-start disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset totals
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsageMeter;
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface VariationCountPickerProps {
+  count: number;
+  onCountChange: (count: number) => void;
+  isLoading: boolean;
+}
+
+const MAX_VARIATIONS = 4;
+
+const VariationCountPicker: React.FC<VariationCountPickerProps> = ({ count, onCountChange, isLoading }) => (
+  <div className="flex items-center justify-center gap-2" title="How many candidates each AI request generates. You pick one before it is added to history.">
+    <span className="text-sm font-medium text-gray-400">Variations:</span>
+    {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(value => (
+      <button
+        key={value}
+        type="button"
+        onClick={() => onCountChange(value)}
+        disabled={isLoading}
+        className={`w-9 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+          count === value
+          ? 'bg-cyan-500 text-white shadow-md shadow-cyan-500/10'
+          : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'
+        }`}
+      >
+        {value}
+      </button>
+    ))}
+  </div>
+);
+
+export default VariationCountPicker;
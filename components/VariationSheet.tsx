@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+
+interface VariationSheetProps {
+  candidates: File[];
+  prompt: string | null;
+  canKeepOthers: boolean; // false when the candidates would each start a new project
+  onChoose: (index: number, keepOthers: boolean) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * A contact sheet of generated candidates. Only the chosen one becomes the current step.
+ */
+const VariationSheet: React.FC<VariationSheetProps> = ({ candidates, prompt, canKeepOthers, onChoose, onDiscard }) => {
+  const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [keepOthers, setKeepOthers] = useState(true);
+
+  useEffect(() => {
+    const urls = candidates.map(file => URL.createObjectURL(file));
+    setImageUrls(urls);
+    setSelectedIndex(0);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [candidates]);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto flex flex-col items-center gap-5 animate-fade-in">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-100">Pick a Variation</h2>
+        {prompt && <p className="text-sm text-gray-400 mt-1 max-w-2xl">"{prompt}"</p>}
+      </div>
+
+      <div className={`w-full grid gap-3 ${candidates.length > 2 ? 'grid-cols-2 lg:grid-cols-4' : 'grid-cols-2'}`}>
+        {imageUrls.map((url, index) => (
+          <button
+            key={url}
+            onClick={() => setSelectedIndex(index)}
+            onDoubleClick={() => onChoose(index, keepOthers)}
+            className={`relative rounded-lg overflow-hidden ring-2 transition-all duration-200 ${selectedIndex === index ? 'ring-cyan-500 shadow-lg shadow-cyan-500/20' : 'ring-transparent hover:ring-cyan-500/50'}`}
+            aria-label={`Variation ${index + 1}`}
+            aria-pressed={selectedIndex === index}
+          >
+            <img src={url} alt={`Variation ${index + 1}`} className="w-full h-auto object-contain max-h-[50vh] bg-black/30" />
+            <span className="absolute top-2 left-2 w-6 h-6 rounded-full bg-black/70 text-white text-xs font-bold flex items-center justify-center">{index + 1}</span>
+          </button>
+        ))}
+      </div>
+
+      {canKeepOthers && candidates.length > 1 && (
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={keepOthers} onChange={(e) => setKeepOthers(e.target.checked)} className="accent-cyan-500" />
+          Keep the other variations as side branches in history
+        </label>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onDiscard}
+          className="bg-gray-800/80 border border-gray-700 text-gray-300 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-gray-700 hover:text-white active:scale-95 text-base"
+        >
+          Discard All
+        </button>
+        <button
+          onClick={() => onChoose(selectedIndex, keepOthers)}
+          className="bg-cyan-500 text-white font-bold py-3 px-8 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-cyan-500/20 hover:shadow-xl hover:shadow-cyan-500/30 hover:bg-cyan-600 active:scale-95 text-base"
+        >
+          Use Variation {selectedIndex + 1}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariationSheet;
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { isAbortError } from './requestPolicy';
+import type { AiCallRecord } from '../types';
+
+// What a provider knows about a call before sending it
+export interface AiCallMeta {
+    operation: string;
+    model: string;
+    prompt: string;
+    images: File[];
+}
+
+// What the model sent back, as far as the log is concerned
+export type AiCallResponseDetails = Pick<AiCallRecord, 'finishReason' | 'promptFeedback' | 'textParts' | 'usage'>;
+
+const NO_RESPONSE: AiCallResponseDetails = { finishReason: null, promptFeedback: null, textParts: [], usage: null };
+
+// Older calls are dropped beyond this, so a long session doesn't keep every prompt in memory
+const MAX_RECORDS = 200;
+
+let records: AiCallRecord[] = [];
+const listeners = new Set<(records: AiCallRecord[]) => void>();
+const callListeners = new Set<(record: AiCallRecord) => void>();
+
+const notify = () => listeners.forEach(listener => listener(records));
+
+const recordAiCall = (record: Omit<AiCallRecord, 'id'>): void => {
+    const entry = { id: crypto.randomUUID(), ...record };
+    records = [...records.slice(-(MAX_RECORDS - 1)), entry];
+    callListeners.forEach(listener => listener(entry));
+    notify();
+};
+
+/**
+ * Runs one attempt at a call and adds it to the log for this page session, whether it
+ * succeeds, fails or is cancelled. `run` passes what the model returned to `setResponse`
+ * before checking it, so responses that are then rejected are logged in full.
+ */
+export const logAiCall = async <T>(
+    meta: AiCallMeta,
+    run: (setResponse: (details: AiCallResponseDetails) => void) => Promise<T>,
+): Promise<T> => {
+    const startedAt = Date.now();
+    let response = NO_RESPONSE;
+    const record = (status: AiCallRecord['status'], error: unknown) => recordAiCall({
+        startedAt,
+        operation: meta.operation,
+        model: meta.model,
+        prompt: meta.prompt,
+        images: meta.images.map(({ name, type, size }) => ({ name, type, bytes: size })),
+        latencyMs: Date.now() - startedAt,
+        status,
+        ...response,
+        error: error ? (error instanceof Error ? error.message : String(error)) : null,
+    });
+
+    try {
+        const result = await run(details => { response = details; });
+        record('success', null);
+        return result;
+    } catch (error) {
+        record(isAbortError(error) ? 'cancelled' : 'failed', error);
+        throw error;
+    }
+};
+
+/** The calls made so far, oldest first. */
+export const getAiCallLog = (): AiCallRecord[] => records;
+
+export const clearAiCallLog = (): void => {
+    records = [];
+    notify();
+};
+
+/**
+ * Calls the listener with the full log whenever a call is recorded or the log is cleared.
+ * @returns A function that stops listening.
+ */
+export const subscribeToAiCallLog = (listener: (records: AiCallRecord[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Calls the listener with each new call as it's recorded. Unlike the log itself,
+ * these aren't affected by clearing the log or by old calls being dropped.
+ * @returns A function that stops listening.
+ */
+export const onAiCallRecorded = (listener: (record: AiCallRecord) => void): (() => void) => {
+    callListeners.add(listener);
+    return () => {
+        callListeners.delete(listener);
+    };
+};
+
+/**
+ * Serialises the log to a JSON file for sharing in bug reports.
+ */
+export const exportAiCallLog = (): File => {
+    const json = JSON.stringify({ exportedAt: new Date().toISOString(), calls: records }, null, 2);
+    return new File([json], `ai-calls-${new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')}.json`, { type: 'application/json' });
+};
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface WebpFrame {
+    image: Blob; // a still WebP, as canvas.toBlob writes it
+    durationMs: number;
+}
+
+const fourCC = (bytes: Uint8Array, offset: number): string =>
+    String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const writeUint24 = (view: DataView, offset: number, value: number) => {
+    view.setUint8(offset, value & 0xff);
+    view.setUint8(offset + 1, (value >> 8) & 0xff);
+    view.setUint8(offset + 2, (value >> 16) & 0xff);
+};
+
+// A RIFF chunk: tag, little-endian size, payload, and a pad byte when the size is odd
+const createChunk = (tag: string, payload: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(8 + payload.length + (payload.length & 1));
+    const view = new DataView(chunk.buffer);
+    [...tag].forEach((char, i) => view.setUint8(i, char.charCodeAt(0)));
+    view.setUint32(4, payload.length, true);
+    chunk.set(payload, 8);
+    return chunk;
+};
+
+/**
+ * Returns the chunks of a still WebP that hold its image data (ALPH, VP8 or VP8L),
+ * dropping the VP8X header and any metadata.
+ */
+const readImageChunks = (bytes: Uint8Array): Uint8Array[] => {
+    if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') {
+        throw new Error("The browser did not produce a WebP frame.");
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Uint8Array[] = [];
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const tag = fourCC(bytes, offset);
+        const size = view.getUint32(offset + 4, true);
+        const end = offset + 8 + size + (size & 1);
+        if (tag === 'ALPH' || tag === 'VP8 ' || tag === 'VP8L') {
+            chunks.push(bytes.subarray(offset, Math.min(end, bytes.length)));
+        }
+        offset = end;
+    }
+    if (chunks.length === 0) throw new Error("The WebP frame has no image data.");
+    return chunks;
+};
+
+/**
+ * Combines still WebP frames of the same size into one looping animated WebP.
+ */
+export const createAnimatedWebp = async (frames: WebpFrame[], width: number, height: number): Promise<Blob> => {
+    const parts: Uint8Array[] = [];
+
+    const header = new DataView(new ArrayBuffer(10));
+    header.setUint8(0, 0x02); // animation, no alpha: every frame is drawn opaque
+    writeUint24(header, 4, width - 1);
+    writeUint24(header, 7, height - 1);
+    parts.push(createChunk('VP8X', new Uint8Array(header.buffer)));
+
+    const animation = new DataView(new ArrayBuffer(6));
+    animation.setUint32(0, 0xff000000, true); // background colour, BGRA
+    animation.setUint16(4, 0, true); // loop forever
+    parts.push(createChunk('ANIM', new Uint8Array(animation.buffer)));
+
+    for (const frame of frames) {
+        const imageChunks = readImageChunks(new Uint8Array(await frame.image.arrayBuffer()));
+        const frameHeader = new DataView(new ArrayBuffer(16));
+        // The frame sits at 0,0 and covers the canvas, so only its size and duration are set
+        writeUint24(frameHeader, 6, width - 1);
+        writeUint24(frameHeader, 9, height - 1);
+        writeUint24(frameHeader, 12, Math.min(0xffffff, Math.round(frame.durationMs)));
+        frameHeader.setUint8(15, 0x02); // don't blend with the previous frame
+        const payload = new Uint8Array(16 + imageChunks.reduce((size, chunk) => size + chunk.length, 0));
+        payload.set(new Uint8Array(frameHeader.buffer), 0);
+        let offset = 16;
+        for (const chunk of imageChunks) {
+            payload.set(chunk, offset);
+            offset += chunk.length;
+        }
+        parts.push(createChunk('ANMF', payload));
+    }
+
+    const riff = new DataView(new ArrayBuffer(12));
+    ['R', 'I', 'F', 'F'].forEach((char, i) => riff.setUint8(i, char.charCodeAt(0)));
+    riff.setUint32(4, 4 + parts.reduce((size, part) => size + part.length, 0), true);
+    ['W', 'E', 'B', 'P'].forEach((char, i) => riff.setUint8(8 + i, char.charCodeAt(0)));
+
+    return new Blob([riff.buffer, ...parts], { type: 'image/webp' });
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { parseCubeLut } from './cubeLut';
+
+// A 2×2×2 identity LUT, red changing fastest as the format requires
+const IDENTITY_ENTRIES = [
+    '0 0 0', '1 0 0', '0 1 0', '1 1 0',
+    '0 0 1', '1 0 1', '0 1 1', '1 1 1',
+];
+
+const cubeFile = (...lines: string[]) => lines.join('\n');
+
+describe('parseCubeLut', () => {
+    it('reads the title, size and table', () => {
+        const lut = parseCubeLut(cubeFile('TITLE "Warm"', 'LUT_3D_SIZE 2', ...IDENTITY_ENTRIES), 'file');
+        expect(lut.title).toBe('Warm');
+        expect(lut.size).toBe(2);
+        expect(lut.domainMin).toEqual([0, 0, 0]);
+        expect(lut.domainMax).toEqual([1, 1, 1]);
+        expect(Array.from(lut.table.slice(0, 6))).toEqual([0, 0, 0, 1, 0, 0]);
+        expect(lut.table).toHaveLength(24);
+    });
+
+    it('falls back to the given title and skips comments, blank lines and unknown keywords', () => {
+        const lut = parseCubeLut(cubeFile('# exported by a grading app', '', 'LUT_3D_SIZE 2', 'VENDOR_THING yes', ...IDENTITY_ENTRIES), 'fallback');
+        expect(lut.title).toBe('fallback');
+        expect(lut.size).toBe(2);
+    });
+
+    it('accepts Windows line endings', () => {
+        const lut = parseCubeLut(['LUT_3D_SIZE 2', ...IDENTITY_ENTRIES].join('\r\n'), 'file');
+        expect(lut.table).toHaveLength(24);
+    });
+
+    it('reads DOMAIN_MIN/MAX and LUT_3D_INPUT_RANGE', () => {
+        const withDomain = parseCubeLut(cubeFile('LUT_3D_SIZE 2', 'DOMAIN_MIN 0 0.1 0.2', 'DOMAIN_MAX 1 2 3', ...IDENTITY_ENTRIES), 'file');
+        expect(withDomain.domainMin).toEqual([0, 0.1, 0.2]);
+        expect(withDomain.domainMax).toEqual([1, 2, 3]);
+
+        const withRange = parseCubeLut(cubeFile('LUT_3D_SIZE 2', 'LUT_3D_INPUT_RANGE -0.5 1.5', ...IDENTITY_ENTRIES), 'file');
+        expect(withRange.domainMin).toEqual([-0.5, -0.5, -0.5]);
+        expect(withRange.domainMax).toEqual([1.5, 1.5, 1.5]);
+    });
+
+    it('rejects 1D LUTs', () => {
+        expect(() => parseCubeLut(cubeFile('LUT_1D_SIZE 2', '0 0 0', '1 1 1'), 'file')).toThrow(/1D LUTs are not supported/);
+    });
+
+    it('rejects a missing or out-of-range size', () => {
+        expect(() => parseCubeLut(cubeFile(...IDENTITY_ENTRIES), 'file')).toThrow(/LUT_3D_SIZE/);
+        expect(() => parseCubeLut(cubeFile('LUT_3D_SIZE 1', '0 0 0'), 'file')).toThrow(/LUT_3D_SIZE/);
+        expect(() => parseCubeLut(cubeFile('LUT_3D_SIZE 257', ...IDENTITY_ENTRIES), 'file')).toThrow(/LUT_3D_SIZE/);
+    });
+
+    it('rejects a table with the wrong number of entries', () => {
+        expect(() => parseCubeLut(cubeFile('LUT_3D_SIZE 2', ...IDENTITY_ENTRIES.slice(1)), 'file'))
+            .toThrow('The .cube file should contain 8 entries but has 7.');
+    });
+
+    it('rejects entries that are not numbers', () => {
+        expect(() => parseCubeLut(cubeFile('LUT_3D_SIZE 2', '0 0 x', ...IDENTITY_ENTRIES.slice(1)), 'file'))
+            .toThrow('Invalid line in .cube file: "0 0 x"');
+    });
+});
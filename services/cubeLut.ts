@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createImageProgram, createTexture, getMaxTextureSize, renderImageFile, type ImageRendererFactory } from './webgl';
+import type { CubeLut } from '../types';
+
+export interface LutParams {
+    lut: CubeLut;
+    intensity: number; // 0..100
+}
+
+const parseTriple = (parts: string[], line: string): [number, number, number] => {
+    const values = parts.slice(0, 3).map(Number);
+    if (values.length !== 3 || values.some(v => Number.isNaN(v))) {
+        throw new Error(`Invalid line in .cube file: "${line}"`);
+    }
+    return values as [number, number, number];
+};
+
+/**
+ * Parses the text of an Adobe/Resolve .cube file. Only 3D LUTs are supported.
+ * @param text The file contents.
+ * @param fallbackTitle Used when the file has no TITLE line, typically the file name.
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): CubeLut => {
+    let title = fallbackTitle;
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    const values: number[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const parts = line.split(/\s+/);
+        const keyword = parts[0].toUpperCase();
+        if (keyword === 'TITLE') {
+            title = line.slice(5).trim().replace(/^"|"$/g, '') || fallbackTitle;
+        } else if (keyword === 'LUT_3D_SIZE') {
+            size = parseInt(parts[1], 10);
+        } else if (keyword === 'LUT_1D_SIZE') {
+            throw new Error("1D LUTs are not supported. Please use a 3D .cube file.");
+        } else if (keyword === 'DOMAIN_MIN') {
+            domainMin = parseTriple(parts.slice(1), line);
+        } else if (keyword === 'DOMAIN_MAX') {
+            domainMax = parseTriple(parts.slice(1), line);
+        } else if (keyword === 'LUT_3D_INPUT_RANGE') {
+            const [min, max] = parts.slice(1, 3).map(Number);
+            domainMin = [min, min, min];
+            domainMax = [max, max, max];
+        } else if (/^[-+.\d]/.test(keyword)) {
+            values.push(...parseTriple(parts, line));
+        }
+        // Any other keyword is vendor metadata we can safely ignore
+    }
+
+    if (!size || size < 2 || size > 256) {
+        throw new Error("The .cube file is missing a valid LUT_3D_SIZE.");
+    }
+    if (values.length !== size * size * size * 3) {
+        throw new Error(`The .cube file should contain ${size ** 3} entries but has ${values.length / 3}.`);
+    }
+
+    return { title, size, domainMin, domainMax, table: new Float32Array(values) };
+};
+
+/**
+ * Throws if the LUT's texture would exceed this device's WebGL limits.
+ * Called when a LUT is imported so an oversized one is never saved.
+ */
+export const assertLutFitsDevice = ({ size }: CubeLut): void => {
+    const maxTextureSize = getMaxTextureSize();
+    if (maxTextureSize === 0) {
+        throw new Error("LUTs need WebGL, which isn't available in this browser.");
+    }
+    if (size * size > maxTextureSize) {
+        throw new Error(`This LUT is too large for your graphics card (${size}³ entries).`);
+    }
+};
+
+// Samples the LUT, stored as a row of blue slices, with manual interpolation between slices.
+const FRAGMENT_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform sampler2D u_lut;
+uniform float u_lutSize;
+uniform vec3 u_domainMin;
+uniform vec3 u_domainMax;
+uniform float u_intensity;
+varying vec2 v_texCoord;
+
+vec2 slicePosition(float blue, vec2 redGreen) {
+    return vec2((blue * u_lutSize + redGreen.x + 0.5) / (u_lutSize * u_lutSize), (redGreen.y + 0.5) / u_lutSize);
+}
+
+void main() {
+    vec4 texel = texture2D(u_image, v_texCoord);
+    vec3 scaled = clamp((texel.rgb - u_domainMin) / (u_domainMax - u_domainMin), 0.0, 1.0) * (u_lutSize - 1.0);
+    float blue0 = floor(scaled.b);
+    float blue1 = min(blue0 + 1.0, u_lutSize - 1.0);
+    vec3 graded = mix(
+        texture2D(u_lut, slicePosition(blue0, scaled.rg)).rgb,
+        texture2D(u_lut, slicePosition(blue1, scaled.rg)).rgb,
+        scaled.b - blue0
+    );
+    gl_FragColor = vec4(mix(texel.rgb, graded, u_intensity), texel.a);
+}`;
+
+/**
+ * Creates a WebGL renderer that grades the image through a 3D LUT.
+ */
+export const createLutRenderer: ImageRendererFactory<LutParams> = (canvas) => {
+    const { gl, uniform, setSourceImage, draw, dispose } = createImageProgram(canvas, FRAGMENT_SHADER);
+    gl.activeTexture(gl.TEXTURE1);
+    const lutTexture = createTexture(gl, gl.LINEAR);
+    gl.uniform1i(uniform('u_lut'), 1);
+    const maxTextureSize: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+    let uploadedLut: CubeLut | null = null;
+
+    const uploadLut = (lut: CubeLut) => {
+        const { size, table } = lut;
+        if (size * size > maxTextureSize) {
+            throw new Error(`This LUT is too large for your graphics card (${size}³ entries).`);
+        }
+        // Lay the cube out as `size` blue slices side by side, each size × size
+        const width = size * size;
+        const pixels = new Uint8Array(width * size * 4);
+        for (let b = 0; b < size; b++) {
+            for (let g = 0; g < size; g++) {
+                for (let r = 0; r < size; r++) {
+                    const source = (r + g * size + b * size * size) * 3;
+                    const target = (g * width + b * size + r) * 4;
+                    pixels[target] = Math.round(Math.min(1, Math.max(0, table[source])) * 255);
+                    pixels[target + 1] = Math.round(Math.min(1, Math.max(0, table[source + 1])) * 255);
+                    pixels[target + 2] = Math.round(Math.min(1, Math.max(0, table[source + 2])) * 255);
+                    pixels[target + 3] = 255;
+                }
+            }
+        }
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, lutTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, size, 0, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+        gl.uniform1f(uniform('u_lutSize'), size);
+        gl.uniform3fv(uniform('u_domainMin'), lut.domainMin);
+        gl.uniform3fv(uniform('u_domainMax'), lut.domainMax);
+        uploadedLut = lut;
+    };
+
+    return {
+        setImage: setSourceImage,
+        render: ({ lut, intensity }) => {
+            if (lut !== uploadedLut) uploadLut(lut);
+            gl.uniform1f(uniform('u_intensity'), intensity / 100);
+            draw();
+        },
+        dispose: () => {
+            gl.deleteTexture(lutTexture);
+            dispose();
+        },
+    };
+};
+
+/**
+ * Grades an image file through a LUT at full resolution.
+ * @returns A promise that resolves to a PNG file of the graded image.
+ */
+export const applyLut = (image: File, params: LutParams): Promise<File> =>
+    renderImageFile(image, createLutRenderer, params, 'filtered');
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'memories-in-motion';
+const DB_VERSION = 5;
+
+export const SESSIONS_STORE = 'sessions';
+export const STEPS_STORE = 'steps';
+export const LUTS_STORE = 'luts';
+export const FACES_STORE = 'faces';
+export const PRESETS_STORE = 'presets';
+export const PRODUCTS_STORE = 'products';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the app's IndexedDB database.
+ * The connection is shared for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            // Each block migrates from one version to the next, so upgrades can skip versions.
+            if (event.oldVersion < 1) {
+                db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                const steps = db.createObjectStore(STEPS_STORE, { keyPath: 'id' });
+                steps.createIndex('sessionId', 'sessionId');
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore(LUTS_STORE, { keyPath: 'id' });
+            }
+            if (event.oldVersion < 3) {
+                db.createObjectStore(FACES_STORE, { keyPath: 'id' });
+            }
+            if (event.oldVersion < 4) {
+                const presets = db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+                presets.createIndex('kind', 'kind');
+            }
+            if (event.oldVersion < 5) {
+                db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDatabase, requestToPromise, transactionDone, FACES_STORE } from './db';
+import { createThumbnail, dataURLtoFile, fileToDataURL, isImageDataUrl } from './imageFiles';
+import type { FacePhoto, PersonProfile } from '../types';
+
+const LEGACY_STORAGE_KEY = 'dad-memory-faces';
+const THUMBNAIL_SIZE = 256;
+const EXPORT_FORMAT = 'memories-face-library';
+
+// The shape of a person in an exported library file, with photos inlined as data URLs
+interface ExportedPerson {
+    id: string;
+    name: string;
+    tags: string[];
+    photos: string[];
+    primaryPhotoIndex: number;
+    createdAt: number;
+}
+
+/**
+ * Wraps a reference photo for the library, generating its thumbnail.
+ */
+export const createFacePhoto = async (image: File): Promise<FacePhoto> => {
+    const id = crypto.randomUUID();
+    return { id, image, thumbnail: await createThumbnail(image, THUMBNAIL_SIZE, `thumbnail-${id}.jpg`) };
+};
+
+// Photos that are not inline images are dropped; a person left without photos is skipped.
+const createPerson = async (person: Omit<ExportedPerson, 'photos'>, photoDataUrls: unknown[]): Promise<PersonProfile | null> => {
+    const validPhotos = photoDataUrls.filter(isImageDataUrl);
+    if (validPhotos.length === 0) return null;
+    const images = validPhotos.map((photo, index) => dataURLtoFile(photo, `face-${person.id}-${index + 1}`));
+    const photos = await Promise.all(images.map(createFacePhoto));
+    const primaryPhotoIndex = Math.max(0, Math.min(Math.trunc(person.primaryPhotoIndex) || 0, photos.length - 1));
+    return { ...person, photos, primaryPhotoIndex };
+};
+
+const isPerson = (person: PersonProfile | null): person is PersonProfile => person !== null;
+
+// Faces used to live in localStorage as a plain list of data URLs
+const migrateLegacyFaces = async (): Promise<void> => {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    const entries: unknown = JSON.parse(stored);
+    const createdAt = Date.now();
+    const people = await Promise.all((Array.isArray(entries) ? entries : []).map((entry, index) =>
+        createPerson({ id: crypto.randomUUID(), name: '', tags: [], primaryPhotoIndex: 0, createdAt: createdAt + index }, [entry])
+    ));
+    await savePeople(people.filter(isPerson));
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Lists everyone in the face library, oldest first. Moves any faces left over in
+ * localStorage by older versions into the library on first use.
+ */
+export const listPeople = async (): Promise<PersonProfile[]> => {
+    migration ??= migrateLegacyFaces().catch(e => console.error("Failed to migrate faces from localStorage", e));
+    await migration;
+    const db = await openDatabase();
+    const people = await requestToPromise<PersonProfile[]>(db.transaction(FACES_STORE, 'readonly').objectStore(FACES_STORE).getAll());
+    return people.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const savePeople = async (people: PersonProfile[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(FACES_STORE, 'readwrite');
+    const store = tx.objectStore(FACES_STORE);
+    people.forEach(person => store.put(person));
+    return transactionDone(tx);
+};
+
+export const deletePerson = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(FACES_STORE, 'readwrite');
+    tx.objectStore(FACES_STORE).delete(id);
+    return transactionDone(tx);
+};
+
+/**
+ * Matches a person against a search query by name or tag, case-insensitively.
+ */
+export const matchesPerson = (person: PersonProfile, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    return !needle
+        || person.name.toLowerCase().includes(needle)
+        || person.tags.some(tag => tag.toLowerCase().includes(needle));
+};
+
+/**
+ * Serialises people to a self-contained JSON file with the original photos inlined.
+ * Thumbnails are left out and regenerated on import.
+ */
+export const exportFaceLibrary = async (people: PersonProfile[]): Promise<File> => {
+    const exported = await Promise.all(people.map(async ({ photos, ...person }): Promise<ExportedPerson> => ({
+        ...person,
+        photos: await Promise.all(photos.map(photo => fileToDataURL(photo.image))),
+    })));
+    const json = JSON.stringify({ format: EXPORT_FORMAT, version: 1, people: exported });
+    return new File([json], 'face-library.json', { type: 'application/json' });
+};
+
+/**
+ * Reads a file written by exportFaceLibrary and saves its people into the library.
+ * People that are already in the library are replaced by the imported copy.
+ * @returns A promise that resolves to the imported people.
+ */
+export const importFaceLibrary = async (file: File): Promise<PersonProfile[]> => {
+    let data: { format?: string; people?: ExportedPerson[] };
+    try {
+        data = JSON.parse(await file.text());
+    } catch {
+        throw new Error("This file is not a face library export.");
+    }
+    if (data.format !== EXPORT_FORMAT || !Array.isArray(data.people)) {
+        throw new Error("This file is not a face library export.");
+    }
+
+    const people = (await Promise.all(data.people
+        .filter(person => person && Array.isArray(person.photos))
+        .map(({ photos, ...person }) => createPerson({
+            id: typeof person.id === 'string' && person.id ? person.id : crypto.randomUUID(),
+            name: typeof person.name === 'string' ? person.name : '',
+            tags: Array.isArray(person.tags) ? person.tags.filter(tag => typeof tag === 'string') : [],
+            primaryPhotoIndex: typeof person.primaryPhotoIndex === 'number' ? person.primaryPhotoIndex : 0,
+            createdAt: typeof person.createdAt === 'number' ? person.createdAt : Date.now(),
+        }, photos)))).filter(isPerson);
+    await savePeople(people);
+    return people;
+};
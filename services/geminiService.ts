@@ -3,167 +3,142 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { ImageProvider, ImageGenerationRequest } from './imageProvider';
+import { runWithRetry, isAbortError, type RequestOptions } from './requestPolicy';
+import { GenerationFailure } from './generationErrors';
+import type { DetectedObject, MemorySubject, Product, StoryboardPanel } from '../types';
 
-// A simple cache for the GenAI instance to avoid re-creating it on every call with the same key.
-let genAIInstance: GoogleGenAI | null = null;
-let lastUsedApiKey: string | null = null;
-
-const getGenAI = (apiKey: string): GoogleGenAI => {
-    if (genAIInstance && lastUsedApiKey === apiKey) {
-        return genAIInstance;
-    }
-    // A new key is provided, create a new instance.
-    genAIInstance = new GoogleGenAI({ apiKey });
-    lastUsedApiKey = apiKey;
-    return genAIInstance;
-};
-
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
-};
-
-const handleApiResponse = (
-    response: GenerateContentResponse,
-    context: string // e.g., "edit", "filter", "adjustment"
-): string => {
-    // 1. Check for prompt blocking first
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
-    }
-
-    // 2. Try to find the image part
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data (${mimeType}) for ${context}`);
-        return `data:${mimeType};base64,${data}`;
-    }
-
-    // 3. If no image, check for other reasons
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
-    }
-    
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
-        (textFeedback 
-            ? `The model responded with text: "${textFeedback}"`
-            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
-
-    console.error(`Model response did not contain an image part for ${context}.`, { response });
-    throw new Error(errorMessage);
-};
+// Every generation goes through here so it can be cancelled, times out and retries transient failures
+const runGeneration = (provider: ImageProvider, request: ImageGenerationRequest, options: RequestOptions): Promise<string> =>
+    runWithRetry(signal => provider.generateImage({ ...request, signal }), options);
 
 /**
- * Generates an edited image using generative AI based on a text prompt and a specific point.
- * @param apiKey The user-provided Gemini API key.
+ * Generates an edited image using generative AI based on a text prompt and a target region.
+ * @param provider The image provider to run the generation on.
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
- * @param hotspot The {x, y} coordinates on the image to focus the edit.
+ * @param hotspot The {x, y} coordinates on the image to focus the edit, or null when a mask is given.
+ * @param mask Optional black-and-white mask (white = editable) matching the original image's dimensions.
+ * @param targetLabel What the mask covers when it was made from a detected object, e.g. "red bicycle".
+ * @param options Cancellation, timeout and retry settings.
  * @returns A promise that resolves to the data URL of the edited image.
  */
 export const generateEditedImage = async (
-    apiKey: string,
+    provider: ImageProvider,
     originalImage: File,
     userPrompt: string,
-    hotspot: { x: number, y: number }
+    hotspot: { x: number, y: number } | null,
+    mask: File | null = null,
+    targetLabel: string | null = null,
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log('Starting generative edit at:', hotspot);
-    const ai = getGenAI(apiKey);
+    if (!hotspot && !mask) {
+        throw new GenerationFailure({ kind: 'invalid-input', message: "An edit needs either a hotspot or a mask." });
+    }
+    console.log('Starting generative edit', mask ? 'with mask' : `at: ${JSON.stringify(hotspot)}`);
     
-    const originalImagePart = await fileToPart(originalImage);
+    const editLocation = mask
+        ? `Edit Location: The second image is a black-and-white mask with the same dimensions as the original. Apply the edit ONLY inside the white area of the mask. Everything in the black area must remain pixel-identical to the original.${targetLabel ? ` The white area covers the ${targetLabel}; words like "this" or "it" in the request refer to it.` : ''}`
+        : `Edit Location: Focus on the area around pixel coordinates (x: ${hotspot!.x}, y: ${hotspot!.y}).`;
     const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
 User Request: "${userPrompt}"
-Edit Location: Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).
+${editLocation}
 
 Editing Guidelines:
 - The edit must be realistic and blend seamlessly with the surrounding area.
 - The rest of the image (outside the immediate edit area) must remain identical to the original.
 
 Output: Return ONLY the final edited image. Do not return text.`;
-    const textPart = { text: prompt };
 
     console.log('Sending image and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model.', response);
+    return runGeneration(provider, {
+        context: 'edit',
+        prompt,
+        images: mask ? [originalImage, mask] : [originalImage],
+    }, options);
+};
 
-    return handleApiResponse(response, 'edit');
+/**
+ * Places a product into the image at a target point, matching the scene's scale, lighting and shadows.
+ * @param provider The image provider to run the generation on.
+ * @param originalImage The original image file.
+ * @param product The product to place: its photo, name and description.
+ * @param hotspot The {x, y} coordinates on the image where the product should go.
+ * @param instructions Optional extra directions, e.g. "standing on the table, label facing the camera".
+ * @param options Cancellation, timeout and retry settings.
+ * @returns A promise that resolves to the data URL of the edited image.
+ */
+export const generateProductPlacement = async (
+    provider: ImageProvider,
+    originalImage: File,
+    product: Pick<Product, 'name' | 'description' | 'image'>,
+    hotspot: { x: number, y: number },
+    instructions: string = '',
+    options: RequestOptions = {},
+): Promise<string> => {
+    console.log(`Starting product placement of "${product.name}" at: ${JSON.stringify(hotspot)}`);
+
+    const description = product.description.trim() ? `\nProduct Description: "${product.description.trim()}"` : '';
+    const directions = instructions.trim() ? `\nUser Directions: "${instructions.trim()}"` : '';
+    const prompt = `You are an expert photo editor AI. Your task is to insert a product into a photo so that it looks like it was there when the photo was taken.
+The first image is the photo to edit. The second image shows the product to insert.
+Product: "${product.name}"${description}
+Placement: Place the product at pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}) of the first image, resting on or held by whatever is at that point.${directions}
+
+Editing Guidelines:
+- Reproduce the product faithfully: its shape, colours, materials, logos and label text must match the second image.
+- Scale the product realistically relative to nearby objects and people, and match the photo's perspective and camera angle.
+- Match the scene's lighting direction, colour temperature, grain and focus, and add contact shadows and reflections where the product meets surfaces.
+- Ignore the background of the product photo; only the product itself goes into the scene.
+- Everything else in the photo must remain identical to the original.
+
+Output: Return ONLY the final edited image. Do not return text.`;
+
+    console.log('Sending image, product photo and placement prompt to the model...');
+    return runGeneration(provider, { context: 'product placement', prompt, images: [originalImage, product.image] }, options);
 };
 
 /**
  * Generates an image with a filter applied using generative AI.
- * @param apiKey The user-provided Gemini API key.
+ * @param provider The image provider to run the generation on.
  * @param originalImage The original image file.
  * @param filterPrompt The text prompt describing the desired filter.
+ * @param options Cancellation, timeout and retry settings.
  * @returns A promise that resolves to the data URL of the filtered image.
  */
 export const generateFilteredImage = async (
-    apiKey: string,
+    provider: ImageProvider,
     originalImage: File,
     filterPrompt: string,
+    options: RequestOptions = {},
 ): Promise<string> => {
     console.log(`Starting filter generation: ${filterPrompt}`);
-    const ai = getGenAI(apiKey);
     
-    const originalImagePart = await fileToPart(originalImage);
     const prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
 Filter Request: "${filterPrompt}"
 
 Output: Return ONLY the final filtered image. Do not return text.`;
-    const textPart = { text: prompt };
 
     console.log('Sending image and filter prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model for filter.', response);
-    
-    return handleApiResponse(response, 'filter');
+    return runGeneration(provider, { context: 'filter', prompt, images: [originalImage] }, options);
 };
 
 /**
  * Generates an image with a global adjustment applied using generative AI.
- * @param apiKey The user-provided Gemini API key.
+ * @param provider The image provider to run the generation on.
  * @param originalImage The original image file.
  * @param adjustmentPrompt The text prompt describing the desired adjustment.
+ * @param options Cancellation, timeout and retry settings.
  * @returns A promise that resolves to the data URL of the adjusted image.
  */
 export const generateAdjustedImage = async (
-    apiKey: string,
+    provider: ImageProvider,
     originalImage: File,
     adjustmentPrompt: string,
+    options: RequestOptions = {},
 ): Promise<string> => {
     console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
-    const ai = getGenAI(apiKey);
     
-    const originalImagePart = await fileToPart(originalImage);
     const prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
 User Request: "${adjustmentPrompt}"
 
@@ -172,51 +147,288 @@ Editing Guidelines:
 - The result must be photorealistic.
 
 Output: Return ONLY the final adjusted image. Do not return text.`;
-    const textPart = { text: prompt };
 
     console.log('Sending image and adjustment prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model for adjustment.', response);
-    
-    return handleApiResponse(response, 'adjustment');
+    return runGeneration(provider, { context: 'adjustment', prompt, images: [originalImage] }, options);
+};
+
+// Lists which input images show whom, e.g. "- Images 1-3: {Dad} (image 1 is the primary photo)"
+const describeReferenceImages = (subjects: MemorySubject[]): string => {
+    let nextImage = 1;
+    return subjects.map(({ name, images }) => {
+        const first = nextImage;
+        nextImage += images.length;
+        return images.length === 1
+            ? `- Image ${first}: {${name}}`
+            : `- Images ${first}-${nextImage - 1}: {${name}} (image ${first} is the primary photo)`;
+    }).join('\n');
 };
 
 /**
- * Creates a new scene around the person in the base image based on a text prompt.
- * @param apiKey The user-provided Gemini API key.
- * @param baseImage The source image file containing the person.
+ * Creates a new scene around one or more people based on a text prompt.
+ * @param provider The image provider to run the generation on.
+ * @param subjects The people to include, each with one or more reference photos, primary photo first.
+ *                 The prompt refers to them as {name}.
  * @param prompt The text prompt describing the desired new scene.
+ * @param options Cancellation, timeout and retry settings.
  * @returns A promise that resolves to the data URL of the generated image.
  */
 export const generateMemory = async (
-    apiKey: string,
-    baseImage: File,
+    provider: ImageProvider,
+    subjects: MemorySubject[],
     prompt: string,
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log(`Starting memory creation with prompt: ${prompt}`);
-    const ai = getGenAI(apiKey);
-    
-    const baseImagePart = await fileToPart(baseImage);
-    const systemPrompt = `You are an expert photo editor AI. Your task is to transform the scene of the provided image based on the user's request, keeping the person/subject as the main focus.
-User Request: "${prompt}"
+    if (subjects.length === 0 || subjects.some(subject => subject.images.length === 0)) {
+        throw new GenerationFailure({ kind: 'invalid-input', message: "A memory needs at least one person with a reference photo." });
+    }
+    const images = subjects.flatMap(subject => subject.images);
+    console.log(`Starting memory creation for ${subjects.length} subject(s) from ${images.length} reference photo(s) with prompt: ${prompt}`);
+
+    // A single photo of a single subject keeps the original scene-transform prompt; names are just inlined.
+    const systemPrompt = images.length === 1
+        ? `You are an expert photo editor AI. Your task is to transform the scene of the provided image based on the user's request, keeping the person/subject as the main focus.
+User Request: "${prompt.replace(/\{([^}]+)\}/g, '$1')}"
 
 Editing Guidelines:
 - Edit the background and environment to match the request.
 - Preserve the original person's appearance and identity as faithfully as possible.
 - The result must be photorealistic and seamlessly blended.
 
-Output: Return ONLY the final edited image. Do not return text.`;
-    const textPart = { text: systemPrompt };
+Output: Return ONLY the final edited image. Do not return text.`
+        : `You are an expert photo editor AI. Your task is to create a single new scene that includes every person shown in the provided reference images, based on the user's request.
+Reference Images (in order):
+${describeReferenceImages(subjects)}
+User Request: "${prompt}"
+The request refers to each person by their name in curly braces.
+
+Editing Guidelines:
+- Include each person exactly once, doing what the request describes for them.
+- When a person has several reference photos, they all show that same person from different angles and in different lighting. Base their pose and expression on their primary photo and use every photo to get their likeness right.
+- Preserve each person's face, identity, age, skin tone and hair as faithfully as possible. Never blend features between people.
+- Build the background and environment to match the request.
+- The result must be photorealistic, with consistent lighting, scale and perspective across everyone.
+
+Output: Return ONLY the final image. Do not return text.`;
+
+    console.log('Sending reference photos and memory prompt to the model...');
+    return runGeneration(provider, { context: 'memory creation', prompt: systemPrompt, images }, options);
+};
 
-    console.log('Sending base image and memory prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [baseImagePart, textPart] },
+export type StoryboardScene = Pick<StoryboardPanel, 'prompt' | 'caption'>;
+
+// Without a text model, the story is cut into runs of whole sentences, one run per scene
+const splitStoryLocally = (story: string, subjectNames: string[], sceneCount: number): StoryboardScene[] => {
+    const sentences = (story.match(/[^.!?]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+    const count = Math.min(sceneCount, sentences.length);
+    const who = subjectNames.map(name => `{${name}}`).join(' and ');
+    return Array.from({ length: count }, (_, i) => {
+        const moment = sentences.slice(Math.floor(i * sentences.length / count), Math.floor((i + 1) * sentences.length / count)).join(' ');
+        return {
+            prompt: `A high definition cinematic photograph of ${who} in this moment of the story: "${moment}"`,
+            caption: moment.length > 80 ? `${moment.slice(0, 77).trimEnd()}...` : moment,
+        };
     });
-    console.log('Received response from model for memory creation.', response);
-    
-    return handleApiResponse(response, 'memory creation');
-};
\ No newline at end of file
+};
+
+// Reads the scene list out of the model's reply, which may be wrapped in a Markdown code block
+const parseStoryboardScenes = (reply: string): StoryboardScene[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(reply.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch {
+        parsed = null;
+    }
+    const scenes = Array.isArray(parsed)
+        ? parsed.filter((scene): scene is StoryboardScene => typeof scene?.prompt === 'string' && !!scene.prompt.trim())
+        : [];
+    if (scenes.length === 0) {
+        console.error('Could not read scenes from the storyboard plan.', { reply });
+        throw new GenerationFailure({ kind: 'unknown', message: "The AI model's storyboard plan could not be read. Please try again." });
+    }
+    return scenes.map(({ prompt, caption }) => ({ prompt: prompt.trim(), caption: typeof caption === 'string' ? caption.trim() : '' }));
+};
+
+/**
+ * Splits a written anecdote into scenes for a storyboard. Uses the provider's text model when it
+ * has one and otherwise splits the story on sentences.
+ * @param provider The provider to plan the scenes with.
+ * @param story The anecdote, as written by the user.
+ * @param subjectNames The people in the story. Scene prompts refer to them as {name}.
+ * @param sceneCount How many scenes to split the story into. Short stories may give fewer.
+ * @param options Cancellation, timeout and retry settings.
+ * @returns A promise that resolves to the scenes in story order.
+ */
+export const planStoryboard = async (
+    provider: ImageProvider,
+    story: string,
+    subjectNames: string[],
+    sceneCount: number,
+    options: RequestOptions = {},
+): Promise<StoryboardScene[]> => {
+    if (!story.trim()) {
+        throw new GenerationFailure({ kind: 'invalid-input', message: "Please write the story to turn into a storyboard." });
+    }
+    const generateText = provider.generateText;
+    if (!generateText) {
+        console.log(`${provider.id} has no text model, splitting the story into ${sceneCount} scenes locally.`);
+        return splitStoryLocally(story, subjectNames, sceneCount);
+    }
+    console.log(`Planning a storyboard of ${sceneCount} scenes.`);
+
+    const prompt = `You are a storyboard artist. Split the family anecdote below into exactly ${sceneCount} key moments, in story order, to be illustrated as a series of photorealistic images.
+People in the story: ${subjectNames.map(name => `{${name}}`).join(', ')}
+Refer to these people only by their names in curly braces, exactly as written above.
+
+Story:
+"""
+${story.trim()}
+"""
+
+For each moment, write:
+- "prompt": a self-contained visual description of the scene for an image generator, covering who is in it, what they are doing, the setting, the camera shot and the lighting. Do not refer to other scenes.
+- "caption": a short caption for the panel of at most 12 words, in the storyteller's voice.
+
+Output: Return ONLY a JSON array of objects with "prompt" and "caption" fields. Do not return anything else.`;
+
+    const reply = await runWithRetry(signal => generateText({ context: 'storyboard planning', prompt, signal }), options);
+    return parseStoryboardScenes(reply).slice(0, sceneCount);
+};
+
+// Reads the objects out of the model's reply. Boxes come back as [ymin, xmin, ymax, xmax] scaled to 0-1000.
+const parseDetectedObjects = (reply: string, imageSize: { width: number, height: number }): DetectedObject[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(reply.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch {
+        console.error('Could not read objects from the analysis.', { reply });
+        throw new GenerationFailure({ kind: 'unknown', message: "The AI model's analysis could not be read. Please try again." });
+    }
+    const entries = Array.isArray(parsed) ? parsed : [];
+    return entries
+        .filter((entry): entry is { label: string, box_2d: number[] } =>
+            typeof entry?.label === 'string' && Array.isArray(entry.box_2d) && entry.box_2d.length === 4 && entry.box_2d.every(Number.isFinite))
+        .map(({ label, box_2d }) => {
+            const [ymin, xmin, ymax, xmax] = box_2d.map(value => Math.min(1000, Math.max(0, value)) / 1000);
+            return {
+                id: crypto.randomUUID(),
+                label: label.trim(),
+                box: {
+                    x: Math.round(Math.min(xmin, xmax) * imageSize.width),
+                    y: Math.round(Math.min(ymin, ymax) * imageSize.height),
+                    width: Math.round(Math.abs(xmax - xmin) * imageSize.width),
+                    height: Math.round(Math.abs(ymax - ymin) * imageSize.height),
+                },
+            };
+        })
+        .filter(({ label, box }) => label && box.width > 0 && box.height > 0);
+};
+
+/**
+ * Finds the distinct objects and people in an image that could be edited on their own.
+ * @param provider The provider to analyze the image with. It needs a text model.
+ * @param image The image to analyze.
+ * @param imageSize The image's natural size, to place the boxes in image pixels.
+ * @param options Cancellation, timeout and retry settings.
+ * @returns A promise that resolves to the labelled objects, largest first.
+ */
+export const detectObjects = async (
+    provider: ImageProvider,
+    image: File,
+    imageSize: { width: number, height: number },
+    options: RequestOptions = {},
+): Promise<DetectedObject[]> => {
+    const generateText = provider.generateText;
+    if (!generateText) {
+        throw new GenerationFailure({ kind: 'invalid-input', message: `The ${provider.id} provider can't analyze images. Switch to a provider with a text model to find objects.` });
+    }
+    console.log('Starting object detection.');
+
+    const prompt = `You are an expert photo analyst. Find the distinct objects and people in this photo that someone might want to edit on their own, such as people, clothing, furniture, vehicles, animals, food and signs. List at most 20, skipping anything too small to edit.
+
+For each one, write:
+- "label": a short, specific description that tells it apart from similar objects, e.g. "woman in a green coat" or "red bicycle on the left".
+- "box_2d": its bounding box as [ymin, xmin, ymax, xmax], scaled to 0-1000.
+
+Output: Return ONLY a JSON array of objects with "label" and "box_2d" fields. Do not return anything else.`;
+
+    const reply = await runWithRetry(signal => generateText({ context: 'object detection', prompt, images: [image], signal }), options);
+    const objects = parseDetectedObjects(reply, imageSize);
+    console.log(`Found ${objects.length} object(s).`);
+    return objects.sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+};
+
+/**
+ * Generates one storyboard panel with the storyboard's people and style.
+ * @param provider The image provider to run the generation on.
+ * @param subjects The people in the storyboard, each with one or more reference photos, primary photo first.
+ * @param scenePrompt The panel's scene description, referring to people as {name}.
+ * @param style The look shared by every panel.
+ * @param styleReference An already generated panel to match, or null for the first panel.
+ * @param options Cancellation, timeout and retry settings.
+ * @returns A promise that resolves to the data URL of the generated panel.
+ */
+export const generateStoryboardPanel = async (
+    provider: ImageProvider,
+    subjects: MemorySubject[],
+    scenePrompt: string,
+    style: string,
+    styleReference: File | null,
+    options: RequestOptions = {},
+): Promise<string> => {
+    if (subjects.length === 0 || subjects.some(subject => subject.images.length === 0)) {
+        throw new GenerationFailure({ kind: 'invalid-input', message: "A storyboard needs at least one person with a reference photo." });
+    }
+    const subjectImages = subjects.flatMap(subject => subject.images);
+    console.log(`Starting storyboard panel generation with prompt: ${scenePrompt}`);
+
+    const referenceLine = styleReference
+        ? `- Image ${subjectImages.length + 1}: an earlier panel of the same storyboard. Match its visual style, colour grade and everyone's clothing, but not its composition.\n`
+        : '';
+    const prompt = `You are an expert photo editor AI illustrating one panel of a storyboard. Your task is to create a single new scene that includes the people shown in the provided reference images, based on the user's request.
+Reference Images (in order):
+${describeReferenceImages(subjects)}
+${referenceLine}Scene: "${scenePrompt}"
+Visual Style: "${style.trim() || 'cinematic, photorealistic film still'}"
+The scene refers to each person by their name in curly braces.
+
+Editing Guidelines:
+- Include the people the scene describes, each exactly once. Leave out anyone the scene doesn't mention.
+- Preserve each person's face, identity, age, skin tone and hair as faithfully as possible. Never blend features between people.
+- Follow the visual style exactly, so this panel looks like part of the same set as the others.
+- The result must be photorealistic, with consistent lighting, scale and perspective across everyone.
+
+Output: Return ONLY the final image. Do not return text.`;
+
+    console.log('Sending reference photos and storyboard prompt to the model...');
+    return runGeneration(provider, {
+        context: 'storyboard panel',
+        prompt,
+        images: styleReference ? [...subjectImages, styleReference] : subjectImages,
+    }, options);
+};
+
+/**
+ * Runs the same generation several times concurrently.
+ * Failed attempts are dropped as long as at least one succeeds, unless the request was cancelled.
+ * @param count How many variations to generate.
+ * @param generate Starts one generation, e.g. `() => generateFilteredImage(provider, image, prompt)`.
+ * @returns A promise that resolves to the data URLs of the successful variations.
+ */
+export const generateVariations = async (count: number, generate: () => Promise<string>): Promise<string[]> => {
+    const results = await Promise.allSettled(Array.from({ length: count }, () => generate()));
+    const cancelled = results.find((result): result is PromiseRejectedResult => result.status === 'rejected' && isAbortError(result.reason));
+    if (cancelled) {
+        throw cancelled.reason;
+    }
+    const imageUrls = results
+        .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+        .map(result => result.value);
+    if (imageUrls.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+    }
+    if (imageUrls.length < count) {
+        console.warn(`${count - imageUrls.length} of ${count} variations failed and were skipped.`);
+    }
+    return imageUrls;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationError } from '../types';
+
+/**
+ * An Error carrying a typed GenerationError, so failures keep their kind as they are thrown
+ * through the service layer.
+ */
+export class GenerationFailure extends Error {
+    readonly detail: GenerationError;
+
+    constructor(detail: GenerationError) {
+        super(detail.message);
+        this.name = 'GenerationFailure';
+        this.detail = detail;
+    }
+}
+
+// Pulls the HTTP status out of SDK errors such as the GenAI ApiError
+const getStatus = (error: unknown): number | null => {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : null;
+};
+
+/**
+ * Classifies anything thrown during a generation into a GenerationError.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+    if (error instanceof GenerationFailure) return error.detail;
+
+    const message = error instanceof Error && error.message ? error.message : 'An unknown error occurred.';
+    const status = getStatus(error);
+    if (status !== null) {
+        if (status === 401 || status === 403 || (status === 400 && /api key/i.test(message))) {
+            return { kind: 'auth', message: "The API key was rejected. Please check it and enter it again." };
+        }
+        if (status === 429) {
+            return { kind: 'quota', message: "You've hit the API's rate limit or run out of quota. Please wait a moment and try again." };
+        }
+        if (status === 400) return { kind: 'invalid-input', message };
+        if (status === 408 || status >= 500) {
+            return { kind: 'network', message: `The image service had a problem (${status}). Please try again.` };
+        }
+    }
+    // fetch reports network failures as a TypeError; other TypeErrors are bugs, not connection problems
+    const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (isOffline || (error instanceof TypeError && /fetch|network/i.test(message))) {
+        return { kind: 'network', message: "Could not reach the image service. Please check your connection and try again." };
+    }
+    return { kind: 'unknown', message };
+};
+
+/** Whether trying the same request again is likely to help. */
+export const isRetryableGenerationError = (error: GenerationError): boolean =>
+    error.kind === 'network' || error.kind === 'quota';
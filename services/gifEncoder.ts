@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const MAX_PALETTE_SIZE = 256;
+const MAX_LZW_CODE = 4096;
+
+export interface GifEncoder {
+    /** Adds a frame of RGBA pixels, the size given to createGifEncoder, shown for durationMs. */
+    addFrame: (pixels: Uint8ClampedArray, durationMs: number) => void;
+    finish: () => Blob;
+}
+
+// A box of colours in median cut, holding 15-bit colour keys with their pixel counts
+interface ColorBox {
+    keys: number[];
+}
+
+const channel = (key: number, shift: number): number => (key >> shift) & 31;
+
+// Splits the box along its widest channel at the pixel-weighted median
+const splitBox = (box: ColorBox, counts: Uint32Array): [ColorBox, ColorBox] | null => {
+    if (box.keys.length < 2) return null;
+    let widestShift = 0;
+    let widestRange = -1;
+    for (const shift of [10, 5, 0]) {
+        let min = 31;
+        let max = 0;
+        for (const key of box.keys) {
+            const value = channel(key, shift);
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+        if (max - min > widestRange) {
+            widestRange = max - min;
+            widestShift = shift;
+        }
+    }
+    const keys = [...box.keys].sort((a, b) => channel(a, widestShift) - channel(b, widestShift));
+    const total = keys.reduce((sum, key) => sum + counts[key], 0);
+    let running = 0;
+    let splitAt = 1;
+    for (; splitAt < keys.length - 1; splitAt++) {
+        running += counts[keys[splitAt - 1]];
+        if (running >= total / 2) break;
+    }
+    return [{ keys: keys.slice(0, splitAt) }, { keys: keys.slice(splitAt) }];
+};
+
+/**
+ * Picks a palette of up to 256 colours for the frame by median cut over 15-bit colours.
+ * @returns The palette as RGB triples and each pixel's palette index.
+ */
+const quantize = (pixels: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } => {
+    const pixelCount = pixels.length / 4;
+    const pixelKeys = new Uint16Array(pixelCount);
+    const counts = new Uint32Array(1 << 15);
+    for (let i = 0; i < pixelCount; i++) {
+        const key = ((pixels[i * 4] >> 3) << 10) | ((pixels[i * 4 + 1] >> 3) << 5) | (pixels[i * 4 + 2] >> 3);
+        pixelKeys[i] = key;
+        counts[key]++;
+    }
+
+    const allKeys: number[] = [];
+    counts.forEach((count, key) => {
+        if (count > 0) allKeys.push(key);
+    });
+    let boxes: ColorBox[] = [{ keys: allKeys }];
+    // Always split the box covering the most pixels, so busy areas get the most colours
+    while (boxes.length < MAX_PALETTE_SIZE) {
+        const weights = boxes.map(box => box.keys.length < 2 ? -1 : box.keys.reduce((sum, key) => sum + counts[key], 0));
+        const largest = weights.indexOf(Math.max(...weights));
+        const halves = weights[largest] < 0 ? null : splitBox(boxes[largest], counts);
+        if (!halves) break;
+        boxes = [...boxes.slice(0, largest), ...halves, ...boxes.slice(largest + 1)];
+    }
+
+    const palette = new Uint8Array(MAX_PALETTE_SIZE * 3);
+    const lookup = new Uint8Array(1 << 15);
+    boxes.forEach((box, index) => {
+        let r = 0, g = 0, b = 0, total = 0;
+        for (const key of box.keys) {
+            const count = counts[key];
+            r += (channel(key, 10) << 3 | 4) * count;
+            g += (channel(key, 5) << 3 | 4) * count;
+            b += (channel(key, 0) << 3 | 4) * count;
+            total += count;
+            lookup[key] = index;
+        }
+        palette[index * 3] = Math.round(r / total);
+        palette[index * 3 + 1] = Math.round(g / total);
+        palette[index * 3 + 2] = Math.round(b / total);
+    });
+
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        indices[i] = lookup[pixelKeys[i]];
+    }
+    return { palette, indices };
+};
+
+// Variable-length LZW as GIF uses it, with codes packed least significant bit first
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const index = indices[i];
+        const key = (prefix << 8) | index;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === MAX_LZW_CODE) {
+            emit(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            // The decoder widens its codes one entry later than it adds them, so widen before adding
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = index;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) output.push(bitBuffer & 0xff);
+    return Uint8Array.from(output);
+};
+
+// Image data is split into sub-blocks of at most 255 bytes, ended by an empty one
+const toSubBlocks = (data: Uint8Array): Uint8Array => {
+    const blocks = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+    let offset = 0;
+    for (let i = 0; i < data.length; i += 255) {
+        const block = data.subarray(i, i + 255);
+        blocks[offset++] = block.length;
+        blocks.set(block, offset);
+        offset += block.length;
+    }
+    blocks[offset] = 0;
+    return blocks;
+};
+
+/**
+ * Creates an animated GIF encoder that loops forever. Each frame gets its own palette,
+ * so crossfades between very different images keep their colours.
+ */
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+    const parts: BlobPart[] = [];
+
+    const header = new DataView(new ArrayBuffer(13));
+    [...'GIF89a'].forEach((char, i) => header.setUint8(i, char.charCodeAt(0)));
+    header.setUint16(6, width, true);
+    header.setUint16(8, height, true);
+    header.setUint8(10, 0x70); // no global palette, 8 bits per channel
+    parts.push(header.buffer);
+    // NETSCAPE2.0 application extension: loop count 0, i.e. forever
+    parts.push(Uint8Array.from([0x21, 0xff, 0x0b, ...[...'NETSCAPE2.0'].map(char => char.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00]));
+
+    // Delays are in hundredths of a second, so they're rounded against the running total to avoid drift
+    let elapsedMs = 0;
+    let elapsedCentiseconds = 0;
+
+    return {
+        addFrame: (pixels, durationMs) => {
+            elapsedMs += durationMs;
+            const delay = Math.max(2, Math.round(elapsedMs / 10) - elapsedCentiseconds);
+            elapsedCentiseconds += delay;
+
+            const { palette, indices } = quantize(pixels);
+            const frameHeader = new DataView(new ArrayBuffer(8 + 10 + palette.length + 1));
+            // Graphic control extension with the frame's delay
+            frameHeader.setUint8(0, 0x21);
+            frameHeader.setUint8(1, 0xf9);
+            frameHeader.setUint8(2, 4);
+            frameHeader.setUint8(3, 0);
+            frameHeader.setUint16(4, delay, true);
+            frameHeader.setUint8(6, 0);
+            frameHeader.setUint8(7, 0);
+            // Image descriptor covering the whole canvas, with a 256-entry local palette
+            frameHeader.setUint8(8, 0x2c);
+            frameHeader.setUint16(13, width, true);
+            frameHeader.setUint16(15, height, true);
+            frameHeader.setUint8(17, 0x87);
+            new Uint8Array(frameHeader.buffer).set(palette, 18);
+            frameHeader.setUint8(18 + palette.length, 8); // LZW minimum code size
+            parts.push(frameHeader.buffer, toSubBlocks(lzwEncode(indices, 8)));
+        },
+        finish: () => new Blob([...parts, Uint8Array.from([0x3b])], { type: 'image/gif' }),
+    };
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryNode } from '../types';
+
+export const getNode = (nodes: HistoryNode[], id: string | null): HistoryNode | null =>
+    (id && nodes.find(node => node.id === id)) || null;
+
+export const getRootNode = (nodes: HistoryNode[]): HistoryNode | null =>
+    nodes.find(node => node.parentId === null) ?? null;
+
+/** Children of a node, oldest attempt first. */
+export const getChildren = (nodes: HistoryNode[], id: string): HistoryNode[] =>
+    nodes.filter(node => node.parentId === id).sort((a, b) => a.createdAt - b.createdAt);
+
+/** All nodes sharing the node's parent, including the node itself. */
+export const getSiblings = (nodes: HistoryNode[], id: string): HistoryNode[] => {
+    const node = getNode(nodes, id);
+    if (!node || node.parentId === null) return node ? [node] : [];
+    return getChildren(nodes, node.parentId);
+};
+
+/** The chain of nodes from the root down to (and including) the given node. */
+export const getPathToNode = (nodes: HistoryNode[], id: string | null): HistoryNode[] => {
+    const path: HistoryNode[] = [];
+    let node = getNode(nodes, id);
+    while (node) {
+        path.unshift(node);
+        node = getNode(nodes, node.parentId);
+    }
+    return path;
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { embedJpegMetadata } from './imageMetadata';
+import type { ExportFormat, ExportSettings, ImageMetadata } from '../types';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: 'jpeg',
+    quality: 90,
+    longEdge: null,
+    convertToSrgb: true,
+    filenameTemplate: '{name}-{step}',
+    includeMetadata: true,
+    stripLocation: true,
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    png: 'image/png',
+    avif: 'image/avif',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+    jpeg: 'jpg',
+    webp: 'webp',
+    png: 'png',
+    avif: 'avif',
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+
+/**
+ * Checks whether this browser can encode the format. Browsers silently fall back to PNG
+ * for types they can't write, so this encodes a single pixel and checks what comes back.
+ */
+export const isExportFormatSupported = async (format: ExportFormat): Promise<boolean> => {
+    if (format === 'png') return true;
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const blob = await canvasToBlob(canvas, MIME_TYPES[format]);
+    return blob?.type === MIME_TYPES[format];
+};
+
+/**
+ * Re-encodes an image with the given export settings.
+ * @param metadata The original photo's metadata, written into JPEGs when the settings include it.
+ * @returns A promise that resolves to the encoded image.
+ */
+export const encodeImage = async (image: File, settings: ExportSettings, metadata: ImageMetadata | null = null): Promise<Blob> => {
+    // 'default' decodes through the embedded colour profile so drawing into the sRGB canvas below
+    // converts the colours; 'none' skips the profile and keeps the raw pixel values
+    const bitmap = await createImageBitmap(image, { colorSpaceConversion: settings.convertToSrgb ? 'default' : 'none' });
+    try {
+        const scale = settings.longEdge ? Math.min(1, settings.longEdge / Math.max(bitmap.width, bitmap.height)) : 1;
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const ctx = canvas.getContext('2d', { colorSpace: 'srgb' });
+        if (!ctx) throw new Error("Could not create a canvas to export the image.");
+
+        // JPEG has no transparency, so flatten onto white rather than black
+        if (settings.format === 'jpeg') {
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+        const mimeType = MIME_TYPES[settings.format];
+        const blob = await canvasToBlob(canvas, mimeType, settings.format === 'png' ? undefined : settings.quality / 100);
+        if (!blob || blob.type !== mimeType) {
+            throw new Error(`Your browser can't save ${settings.format.toUpperCase()} images. Please pick another format.`);
+        }
+        // Canvas output never carries metadata, so anything kept is written back explicitly
+        if (settings.format === 'jpeg' && settings.includeMetadata && metadata) {
+            return embedJpegMetadata(blob, metadata, { includeLocation: !settings.stripLocation });
+        }
+        return blob;
+    } finally {
+        bitmap.close();
+    }
+};
+
+export interface ExportFilenameValues {
+    name: string; // the project name
+    step: number; // 1-based position in the project's history
+    operation: string;
+    date: Date; // when the step was created
+}
+
+/** Replaces characters that aren't allowed in file names. */
+export const sanitizeFilename = (name: string): string =>
+    name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-').trim();
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Fills in a filename template. Supported tokens are {name}, {step}, {operation}, {date} and {time};
+ * anything else is kept as written. Characters that aren't allowed in file names are replaced.
+ */
+export const formatExportFilename = (template: string, values: ExportFilenameValues, format: ExportFormat): string => {
+    const { name, step, operation, date } = values;
+    const tokens: Record<string, string> = {
+        name,
+        step: pad(step),
+        operation,
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    };
+    const base = sanitizeFilename(template.replace(/\{(\w+)\}/g, (match, token: string) => tokens[token] ?? match));
+    return `${base || 'image'}.${EXTENSIONS[format]}`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Checks that an untrusted string is an inline image, so it can be decoded without
+ * fetching anything over the network.
+ */
+export const isImageDataUrl = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith('data:image/');
+
+// Converts a base64 data URL string to a File object
+export const dataURLtoFile = (dataurl: string, filename: string): File => {
+    const arr = dataurl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mime = mimeMatch[1];
+    const bstr = atob(arr[1]);
+    let n = bstr.length;
+    const u8arr = new Uint8Array(n);
+    while(n--){
+        u8arr[n] = bstr.charCodeAt(n);
+    }
+    return new File([u8arr], filename, {type:mime});
+};
+
+export const fileToDataURL = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+
+/**
+ * Scales an image down so its longer side is at most `maxSize` and encodes it as a JPEG.
+ */
+export const createThumbnail = async (image: File, maxSize: number, filename: string): Promise<File> => {
+    const bitmap = await createImageBitmap(image);
+    try {
+        const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Could not create a thumbnail for this image.");
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+        if (!blob) throw new Error("Could not create a thumbnail for this image.");
+        return new File([blob], filename, { type: 'image/jpeg' });
+    } finally {
+        bitmap.close();
+    }
+};
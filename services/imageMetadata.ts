@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageMetadata } from '../types';
+
+// JPEG markers
+const SOI = 0xd8;
+const SOS = 0xda;
+const APP1 = 0xe1;
+const APP13 = 0xed;
+
+// EXIF tags
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_VERSION = 0x0000;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+interface JpegSegment {
+    marker: number;
+    start: number; // offset of the 0xFF byte
+    end: number; // offset just past the segment
+}
+
+// Lists the segments before the image data. Returns null for anything that isn't a JPEG.
+const readJpegSegments = (bytes: Uint8Array): JpegSegment[] | null => {
+    if (bytes[0] !== 0xff || bytes[1] !== SOI) return null;
+    const segments: JpegSegment[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === SOS) break;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        segments.push({ marker, start: offset, end: offset + 2 + length });
+        offset += 2 + length;
+    }
+    return segments;
+};
+
+const isExifSegment = (bytes: Uint8Array, segment: JpegSegment): boolean =>
+    segment.marker === APP1 && EXIF_HEADER.every((byte, i) => bytes[segment.start + 4 + i] === byte);
+
+interface ParsedExif {
+    orientation: number;
+    metadata: ImageMetadata;
+}
+
+// Reads the handful of tags the app cares about from a TIFF-structured EXIF block
+const parseExif = (view: DataView, tiff: number): ParsedExif => {
+    const littleEndian = view.getUint16(tiff) === 0x4949; // "II"
+    const u16 = (offset: number) => view.getUint16(offset, littleEndian);
+    const u32 = (offset: number) => view.getUint32(offset, littleEndian);
+
+    // Maps each tag in an IFD to the offset of its 12-byte entry
+    const readIfd = (ifdOffset: number): Map<number, number> => {
+        const entries = new Map<number, number>();
+        const start = tiff + ifdOffset;
+        if (start + 2 > view.byteLength) return entries;
+        const count = u16(start);
+        for (let i = 0; i < count; i++) {
+            const entry = start + 2 + i * 12;
+            if (entry + 12 > view.byteLength) break;
+            entries.set(u16(entry), entry);
+        }
+        return entries;
+    };
+    // Values over four bytes are stored elsewhere, pointed to by the entry
+    const valueOffset = (entry: number, byteLength: number) => byteLength > 4 ? tiff + u32(entry + 8) : entry + 8;
+    const readAscii = (entry: number | undefined): string | null => {
+        if (entry === undefined) return null;
+        const count = u32(entry + 4);
+        const start = valueOffset(entry, count);
+        const bytes = new Uint8Array(view.buffer, view.byteOffset + start, Math.min(count, view.byteLength - start));
+        const text = new TextDecoder().decode(bytes).replace(/\0+$/, '').trim();
+        return text || null;
+    };
+    const readRationals = (entry: number | undefined): number[] | null => {
+        if (entry === undefined) return null;
+        const count = u32(entry + 4);
+        const start = valueOffset(entry, count * 8);
+        return Array.from({ length: count }, (_, i) => u32(start + i * 8) / (u32(start + i * 8 + 4) || 1));
+    };
+
+    const ifd0 = readIfd(u32(tiff + 4));
+    const orientationEntry = ifd0.get(TAG_ORIENTATION);
+    const exifIfd = ifd0.has(TAG_EXIF_IFD) ? readIfd(u32(ifd0.get(TAG_EXIF_IFD)! + 8)) : new Map<number, number>();
+    const gpsIfd = ifd0.has(TAG_GPS_IFD) ? readIfd(u32(ifd0.get(TAG_GPS_IFD)! + 8)) : new Map<number, number>();
+
+    const toDegrees = (parts: number[] | null, ref: string | null, negativeRef: string) =>
+        parts && parts.length === 3 ? (parts[0] + parts[1] / 60 + parts[2] / 3600) * (ref === negativeRef ? -1 : 1) : null;
+    const latitude = toDegrees(readRationals(gpsIfd.get(TAG_GPS_LATITUDE)), readAscii(gpsIfd.get(TAG_GPS_LATITUDE_REF)), 'S');
+    const longitude = toDegrees(readRationals(gpsIfd.get(TAG_GPS_LONGITUDE)), readAscii(gpsIfd.get(TAG_GPS_LONGITUDE_REF)), 'W');
+
+    return {
+        orientation: orientationEntry !== undefined ? u16(orientationEntry + 8) : 1,
+        metadata: {
+            capturedAt: readAscii(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? readAscii(ifd0.get(TAG_DATE_TIME)),
+            description: readAscii(ifd0.get(TAG_IMAGE_DESCRIPTION)),
+            location: latitude !== null && longitude !== null ? { latitude, longitude } : null,
+        },
+    };
+};
+
+// Redraws the image through a canvas, which never carries metadata over. Browsers apply
+// the EXIF orientation when decoding, so this also bakes the orientation into the pixels.
+const redrawImage = async (file: File, type: 'image/jpeg' | 'image/png', name: string): Promise<File> => {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Could not create a canvas to prepare the photo.");
+        ctx.drawImage(bitmap, 0, 0);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.95));
+        if (!blob) throw new Error("Could not prepare the photo.");
+        return new File([blob], name, { type, lastModified: file.lastModified });
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Prepares an uploaded photo for editing. JPEGs come back upright, without any EXIF, XMP or
+ * IPTC blocks, so rotated phone photos line up with masks and location data never reaches the
+ * model. The metadata worth keeping is read out first and returned alongside.
+ * Other formats may carry EXIF or text chunks too, so they are redrawn as a PNG with no metadata.
+ */
+export const prepareUploadedImage = async (file: File): Promise<{ file: File; metadata: ImageMetadata | null }> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const segments = readJpegSegments(bytes);
+    if (!segments) {
+        return { file: await redrawImage(file, 'image/png', file.name.replace(/\.[^.]*$/, '') + '.png'), metadata: null };
+    }
+
+    const exifSegment = segments.find(segment => isExifSegment(bytes, segment));
+    let parsed: ParsedExif | null = null;
+    if (exifSegment) {
+        try {
+            parsed = parseExif(new DataView(bytes.buffer, exifSegment.start + 10, exifSegment.end - exifSegment.start - 10), 0);
+        } catch (e) {
+            console.warn("Could not read the photo's EXIF data", e);
+        }
+    }
+
+    if (parsed && parsed.orientation !== 1) {
+        return { file: await redrawImage(file, 'image/jpeg', file.name), metadata: parsed.metadata };
+    }
+    // Upright already: drop the metadata segments without re-encoding
+    const removed = segments.filter(segment => segment.marker === APP1 || segment.marker === APP13);
+    if (removed.length === 0) return { file, metadata: parsed?.metadata ?? null };
+    const kept: BlobPart[] = [];
+    let offset = 0;
+    removed.forEach(segment => {
+        kept.push(bytes.slice(offset, segment.start));
+        offset = segment.end;
+    });
+    kept.push(bytes.slice(offset));
+    return {
+        file: new File(kept, file.name, { type: file.type || 'image/jpeg', lastModified: file.lastModified }),
+        metadata: parsed?.metadata ?? null,
+    };
+};
+
+type IfdEntry =
+    | { tag: number; type: 'byte'; value: number[] }
+    | { tag: number; type: 'ascii'; value: string }
+    | { tag: number; type: 'long'; value: number }
+    | { tag: number; type: 'rational'; value: [number, number][] };
+
+const TYPE_CODES = { byte: 1, ascii: 2, long: 4, rational: 5 } as const;
+
+// Encodes an entry's value little-endian, returning the bytes and the EXIF count
+const encodeEntryValue = (entry: IfdEntry): { bytes: Uint8Array; count: number } => {
+    switch (entry.type) {
+        case 'byte':
+            return { bytes: new Uint8Array(entry.value), count: entry.value.length };
+        case 'ascii': {
+            const text = new TextEncoder().encode(`${entry.value}\0`);
+            return { bytes: text, count: text.length };
+        }
+        case 'long': {
+            const bytes = new Uint8Array(4);
+            new DataView(bytes.buffer).setUint32(0, entry.value, true);
+            return { bytes, count: 1 };
+        }
+        case 'rational': {
+            const bytes = new Uint8Array(entry.value.length * 8);
+            const view = new DataView(bytes.buffer);
+            entry.value.forEach(([numerator, denominator], i) => {
+                view.setUint32(i * 8, numerator, true);
+                view.setUint32(i * 8 + 4, denominator, true);
+            });
+            return { bytes, count: entry.value.length };
+        }
+    }
+};
+
+const ifdLength = (entries: IfdEntry[]): number =>
+    2 + entries.length * 12 + 4 + entries.reduce((size, entry) => {
+        const { length } = encodeEntryValue(entry).bytes;
+        return size + (length > 4 ? length + (length % 2) : 0);
+    }, 0);
+
+// Writes an IFD at `start` (relative to the TIFF header) with its out-of-line values right after it
+const writeIfd = (view: DataView, start: number, entries: IfdEntry[]) => {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    view.setUint16(start, sorted.length, true);
+    let dataOffset = start + 2 + sorted.length * 12 + 4;
+    sorted.forEach((entry, i) => {
+        const position = start + 2 + i * 12;
+        const { bytes, count } = encodeEntryValue(entry);
+        view.setUint16(position, entry.tag, true);
+        view.setUint16(position + 2, TYPE_CODES[entry.type], true);
+        view.setUint32(position + 4, count, true);
+        if (bytes.length <= 4) {
+            new Uint8Array(view.buffer, position + 8, bytes.length).set(bytes);
+        } else {
+            view.setUint32(position + 8, dataOffset, true);
+            new Uint8Array(view.buffer, dataOffset, bytes.length).set(bytes);
+            dataOffset += bytes.length + (bytes.length % 2);
+        }
+    });
+    view.setUint32(start + 2 + sorted.length * 12, 0, true); // no next IFD
+};
+
+const toDmsRationals = (degrees: number): [number, number][] => {
+    const absolute = Math.abs(degrees);
+    const whole = Math.floor(absolute);
+    const minutes = Math.floor((absolute - whole) * 60);
+    const seconds = Math.round(((absolute - whole) * 60 - minutes) * 60 * 100);
+    return [[whole, 1], [minutes, 1], [seconds, 100]];
+};
+
+/**
+ * Writes an EXIF block with the capture date, the description and, unless it is stripped,
+ * the location into a JPEG. Any EXIF block already in the image is replaced.
+ * @returns The JPEG with metadata, or the original blob if there is nothing to write.
+ */
+export const embedJpegMetadata = async (jpeg: Blob, metadata: ImageMetadata, options: { includeLocation: boolean }): Promise<Blob> => {
+    const ifd0: IfdEntry[] = [];
+    const exifIfd: IfdEntry[] = [];
+    const gpsIfd: IfdEntry[] = [];
+    if (metadata.description) ifd0.push({ tag: TAG_IMAGE_DESCRIPTION, type: 'ascii', value: metadata.description });
+    if (metadata.capturedAt) {
+        ifd0.push({ tag: TAG_DATE_TIME, type: 'ascii', value: metadata.capturedAt });
+        exifIfd.push({ tag: TAG_DATE_TIME_ORIGINAL, type: 'ascii', value: metadata.capturedAt });
+    }
+    if (options.includeLocation && metadata.location) {
+        const { latitude, longitude } = metadata.location;
+        gpsIfd.push(
+            { tag: TAG_GPS_VERSION, type: 'byte', value: [2, 3, 0, 0] },
+            { tag: TAG_GPS_LATITUDE_REF, type: 'ascii', value: latitude < 0 ? 'S' : 'N' },
+            { tag: TAG_GPS_LATITUDE, type: 'rational', value: toDmsRationals(latitude) },
+            { tag: TAG_GPS_LONGITUDE_REF, type: 'ascii', value: longitude < 0 ? 'W' : 'E' },
+            { tag: TAG_GPS_LONGITUDE, type: 'rational', value: toDmsRationals(longitude) },
+        );
+    }
+    if (ifd0.length === 0 && gpsIfd.length === 0) return jpeg;
+
+    // Sub-IFD pointers don't change the size of IFD0, so every offset can be worked out up front
+    if (exifIfd.length) ifd0.push({ tag: TAG_EXIF_IFD, type: 'long', value: 0 });
+    if (gpsIfd.length) ifd0.push({ tag: TAG_GPS_IFD, type: 'long', value: 0 });
+    const exifOffset = 8 + ifdLength(ifd0);
+    const gpsOffset = exifOffset + (exifIfd.length ? ifdLength(exifIfd) : 0);
+    ifd0.forEach(entry => {
+        if (entry.tag === TAG_EXIF_IFD && entry.type === 'long') entry.value = exifOffset;
+        if (entry.tag === TAG_GPS_IFD && entry.type === 'long') entry.value = gpsOffset;
+    });
+    const tiffLength = gpsOffset + (gpsIfd.length ? ifdLength(gpsIfd) : 0);
+
+    const tiff = new DataView(new ArrayBuffer(tiffLength));
+    tiff.setUint16(0, 0x4949); // "II", little-endian
+    tiff.setUint16(2, 42, true);
+    tiff.setUint32(4, 8, true);
+    writeIfd(tiff, 8, ifd0);
+    if (exifIfd.length) writeIfd(tiff, exifOffset, exifIfd);
+    if (gpsIfd.length) writeIfd(tiff, gpsOffset, gpsIfd);
+
+    const header = new Uint8Array(4 + EXIF_HEADER.length);
+    header.set([0xff, APP1, ((2 + EXIF_HEADER.length + tiffLength) >> 8) & 0xff, (2 + EXIF_HEADER.length + tiffLength) & 0xff]);
+    header.set(EXIF_HEADER, 4);
+
+    const bytes = new Uint8Array(await jpeg.arrayBuffer());
+    const segments = readJpegSegments(bytes) ?? [];
+    const existing = segments.filter(segment => isExifSegment(bytes, segment));
+    // Keep the JFIF header first if there is one, as some readers expect it there
+    const insertAt = segments[0]?.marker === 0xe0 ? segments[0].end : 2;
+    const parts: BlobPart[] = [bytes.slice(0, insertAt), header, new Uint8Array(tiff.buffer)];
+    let offset = insertAt;
+    existing.filter(segment => segment.start >= insertAt).forEach(segment => {
+        parts.push(bytes.slice(offset, segment.start));
+        offset = segment.end;
+    });
+    parts.push(bytes.slice(offset));
+    return new Blob(parts, { type: 'image/jpeg' });
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { GenerationFailure } from './generationErrors';
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+export interface ImageGenerationRequest {
+    context: string; // e.g., "edit", "filter", "adjustment"
+    prompt: string; // the full instruction text sent alongside the images
+    images: File[]; // input images, in the order the prompt refers to them
+    signal?: AbortSignal; // aborts the generation when the request is cancelled or times out
+}
+
+export interface TextGenerationRequest {
+    context: string; // e.g., "storyboard planning"
+    prompt: string;
+    images?: File[]; // images the prompt asks about, in the order it refers to them
+    signal?: AbortSignal;
+}
+
+/**
+ * A backend that turns a prompt plus input images into a single output image.
+ * Every generation in geminiService goes through one of these.
+ */
+export interface ImageProvider {
+    readonly id: ImageProviderId;
+    /**
+     * Runs a single generation.
+     * @returns A promise that resolves to the data URL of the generated image.
+     */
+    generateImage: (request: ImageGenerationRequest) => Promise<string>;
+    /**
+     * Answers a text-only prompt. Providers without a text model leave this out,
+     * and callers fall back to doing the work locally.
+     * @returns A promise that resolves to the model's reply.
+     */
+    generateText?: (request: TextGenerationRequest) => Promise<string>;
+}
+
+/**
+ * The provider selected at build time through the IMAGE_PROVIDER environment variable.
+ * Defaults to Gemini; set IMAGE_PROVIDER=mock to work fully offline.
+ */
+export const configuredProviderId: ImageProviderId = process.env.IMAGE_PROVIDER === 'mock' ? 'mock' : 'gemini';
+
+/** Whether the given provider needs a user API key before it can run. */
+export const providerRequiresApiKey = (id: ImageProviderId): boolean => id !== 'mock';
+
+export const createImageProvider = (id: ImageProviderId, apiKey: string | null): ImageProvider => {
+    switch (id) {
+        case 'mock':
+            return createMockProvider();
+        case 'gemini':
+            if (!apiKey) throw new GenerationFailure({ kind: 'auth', message: "The Gemini provider requires an API key." });
+            return createGeminiProvider(apiKey);
+    }
+};
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CropRegion, ImageTransform } from '../types';
+
+export const DEFAULT_IMAGE_TRANSFORM: ImageTransform = {
+    quarterTurns: 0,
+    straighten: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+};
+
+export const isIdentityTransform = (transform: ImageTransform): boolean =>
+    transform.quarterTurns % 4 === 0 && transform.straighten === 0 && !transform.flipHorizontal && !transform.flipVertical;
+
+/**
+ * How far an image has to be zoomed in after rotating it by `degrees` so it still covers
+ * its original frame, leaving no empty corners. Only the aspect ratio matters, and it is
+ * the same for width × height as for height × width.
+ */
+export const straightenScale = (width: number, height: number, degrees: number): number => {
+    const angle = Math.abs(degrees) * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+};
+
+interface RenderTransformOptions {
+    region?: CropRegion | null; // null keeps the whole frame
+    outputSize?: { width: number; height: number } | null; // exact pixel size; the crop is trimmed from the centre if its aspect differs
+    maxLongEdge?: number; // scales the result down, e.g. for previews
+}
+
+/**
+ * Renders an image rotated, straightened, mirrored and cropped in a single pass straight
+ * from the source pixels, so the crop keeps the source's native resolution.
+ * Straightening is applied last, after the quarter turns and flips, the same way the crop
+ * tab previews it.
+ * @returns A promise that resolves to a PNG file of the result.
+ */
+export const renderTransformedImage = async (image: File, transform: ImageTransform, options: RenderTransformOptions = {}): Promise<File> => {
+    const { region = null, outputSize = null, maxLongEdge } = options;
+    const bitmap = await createImageBitmap(image);
+    try {
+        const turned = transform.quarterTurns % 2 === 1;
+        const frameWidth = turned ? bitmap.height : bitmap.width;
+        const frameHeight = turned ? bitmap.width : bitmap.height;
+        const crop = region
+            ? {
+                x: region.x / 100 * frameWidth,
+                y: region.y / 100 * frameHeight,
+                width: region.width / 100 * frameWidth,
+                height: region.height / 100 * frameHeight,
+            }
+            : { x: 0, y: 0, width: frameWidth, height: frameHeight };
+
+        let width = outputSize?.width ?? Math.round(crop.width);
+        let height = outputSize?.height ?? Math.round(crop.height);
+        if (maxLongEdge && Math.max(width, height) > maxLongEdge) {
+            const scale = maxLongEdge / Math.max(width, height);
+            width = Math.round(width * scale);
+            height = Math.round(height * scale);
+        }
+        if (width < 1 || height < 1) {
+            throw new Error("The crop area is too small.");
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Could not create a canvas to crop the image.");
+        ctx.imageSmoothingQuality = 'high';
+
+        // Read bottom-up: the source is centred, turned, mirrored, straightened, then the crop is
+        // scaled uniformly to cover the output and centred, trimming any difference in aspect
+        const coverScale = Math.max(width / crop.width, height / crop.height);
+        ctx.translate(width / 2, height / 2);
+        ctx.scale(coverScale, coverScale);
+        ctx.translate(frameWidth / 2 - crop.x - crop.width / 2, frameHeight / 2 - crop.y - crop.height / 2);
+        ctx.rotate(transform.straighten * Math.PI / 180);
+        const zoom = straightenScale(frameWidth, frameHeight, transform.straighten);
+        ctx.scale(transform.flipHorizontal ? -zoom : zoom, transform.flipVertical ? -zoom : zoom);
+        ctx.rotate(transform.quarterTurns * Math.PI / 2);
+        ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error("Could not encode the cropped image.");
+        return new File([blob], `cropped-${Date.now()}.png`, { type: 'image/png' });
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDatabase, requestToPromise, transactionDone, LUTS_STORE } from './db';
+import type { LutPreset } from '../types';
+
+/**
+ * Lists saved LUT presets, oldest first so the order stays stable as new ones are added.
+ */
+export const listLutPresets = async (): Promise<LutPreset[]> => {
+    const db = await openDatabase();
+    const presets = await requestToPromise<LutPreset[]>(db.transaction(LUTS_STORE, 'readonly').objectStore(LUTS_STORE).getAll());
+    return presets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveLutPreset = async (preset: LutPreset): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(LUTS_STORE, 'readwrite');
+    tx.objectStore(LUTS_STORE).put(preset);
+    return transactionDone(tx);
+};
+
+export const deleteLutPreset = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(LUTS_STORE, 'readwrite');
+    tx.objectStore(LUTS_STORE).delete(id);
+    return transactionDone(tx);
+};
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDatabase, requestToPromise, transactionDone, PRESETS_STORE } from './db';
+import { createThumbnail, dataURLtoFile, fileToDataURL, isImageDataUrl } from './imageFiles';
+import type { PromptPreset, PromptPresetKind } from '../types';
+
+const THUMBNAIL_SIZE = 160;
+const EXPORT_FORMAT = 'memories-prompt-presets';
+const PRESET_KINDS: PromptPresetKind[] = ['filter', 'adjustment', 'scene'];
+
+// The shape of a preset in an exported file, with the thumbnail inlined as a data URL
+interface ExportedPreset {
+    id: string;
+    kind: PromptPresetKind;
+    name: string;
+    prompt: string;
+    thumbnail: string | null;
+}
+
+/**
+ * Lists the saved presets of one kind in the user's order.
+ */
+export const listPromptPresets = async (kind: PromptPresetKind): Promise<PromptPreset[]> => {
+    const db = await openDatabase();
+    const store = db.transaction(PRESETS_STORE, 'readonly').objectStore(PRESETS_STORE);
+    const presets = await requestToPromise<PromptPreset[]>(store.index('kind').getAll(kind));
+    return presets.sort((a, b) => a.order - b.order || a.createdAt - b.createdAt);
+};
+
+export const savePromptPresets = async (presets: PromptPreset[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PRESETS_STORE, 'readwrite');
+    const store = tx.objectStore(PRESETS_STORE);
+    presets.forEach(preset => store.put(preset));
+    return transactionDone(tx);
+};
+
+export const deletePromptPreset = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PRESETS_STORE, 'readwrite');
+    tx.objectStore(PRESETS_STORE).delete(id);
+    return transactionDone(tx);
+};
+
+/**
+ * Creates a preset at the end of the list, with a thumbnail of `thumbnailSource` if one is given.
+ * The preset isn't saved yet.
+ */
+export const createPromptPreset = async (
+    kind: PromptPresetKind,
+    name: string,
+    prompt: string,
+    thumbnailSource: File | null,
+    order: number,
+): Promise<PromptPreset> => {
+    const id = crypto.randomUUID();
+    return {
+        id,
+        kind,
+        name,
+        prompt,
+        thumbnail: thumbnailSource ? await createThumbnail(thumbnailSource, THUMBNAIL_SIZE, `preset-${id}.jpg`) : null,
+        order,
+        createdAt: Date.now(),
+    };
+};
+
+/**
+ * Serialises presets to a JSON file teammates can import, with thumbnails inlined.
+ */
+export const exportPromptPresets = async (presets: PromptPreset[], filename: string): Promise<File> => {
+    const exported = await Promise.all(presets.map(async ({ id, kind, name, prompt, thumbnail }): Promise<ExportedPreset> => ({
+        id,
+        kind,
+        name,
+        prompt,
+        thumbnail: thumbnail ? await fileToDataURL(thumbnail) : null,
+    })));
+    const json = JSON.stringify({ format: EXPORT_FORMAT, version: 1, presets: exported }, null, 2);
+    return new File([json], filename, { type: 'application/json' });
+};
+
+// Imported files are untrusted: anything with the wrong field types is skipped rather than stored
+const isValidExportedPreset = (preset: Partial<ExportedPreset> | null): preset is Partial<ExportedPreset> & { kind: PromptPresetKind; prompt: string } =>
+    !!preset
+    && PRESET_KINDS.includes(preset.kind as PromptPresetKind)
+    && typeof preset.prompt === 'string' && !!preset.prompt.trim()
+    && (preset.id === undefined || typeof preset.id === 'string')
+    && (preset.name === undefined || typeof preset.name === 'string')
+    && (preset.thumbnail == null || isImageDataUrl(preset.thumbnail));
+
+/**
+ * Reads a file written by exportPromptPresets and saves its presets, after the ones already
+ * saved. Presets that are already saved are replaced by the imported copy but keep their place.
+ * @returns A promise that resolves to the imported presets, of every kind.
+ */
+export const importPromptPresets = async (file: File): Promise<PromptPreset[]> => {
+    let data: { format?: string; presets?: Partial<ExportedPreset>[] };
+    try {
+        data = JSON.parse(await file.text());
+    } catch {
+        throw new Error("This file is not a preset export.");
+    }
+    if (data.format !== EXPORT_FORMAT || !Array.isArray(data.presets)) {
+        throw new Error("This file is not a preset export.");
+    }
+
+    const existing = new Map<string, PromptPreset>();
+    await Promise.all(PRESET_KINDS.map(async kind => {
+        (await listPromptPresets(kind)).forEach(preset => existing.set(preset.id, preset));
+    }));
+    let nextOrder = Math.max(0, ...[...existing.values()].map(preset => preset.order + 1));
+    const createdAt = Date.now();
+
+    const presets = await Promise.all(data.presets
+        .filter(isValidExportedPreset)
+        .map(async (preset, index): Promise<PromptPreset> => {
+            const id = preset.id || crypto.randomUUID();
+            const previous = existing.get(id);
+            const order = previous?.order ?? nextOrder++;
+            return {
+                id,
+                kind: preset.kind,
+                name: preset.name?.trim() || preset.prompt.slice(0, 24),
+                prompt: preset.prompt,
+                thumbnail: isImageDataUrl(preset.thumbnail) ? dataURLtoFile(preset.thumbnail, `preset-${id}.jpg`) : null,
+                order,
+                createdAt: previous?.createdAt ?? createdAt + index,
+            };
+        }));
+    await savePromptPresets(presets);
+    return presets;
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDatabase, requestToPromise, transactionDone, PRODUCTS_STORE } from './db';
+import { createThumbnail } from './imageFiles';
+import type { Product } from '../types';
+
+const THUMBNAIL_SIZE = 160;
+
+/**
+ * Lists the product catalog, oldest first.
+ */
+export const listProducts = async (): Promise<Product[]> => {
+    const db = await openDatabase();
+    const products = await requestToPromise<Product[]>(db.transaction(PRODUCTS_STORE, 'readonly').objectStore(PRODUCTS_STORE).getAll());
+    return products.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Adds a product to the catalog, generating its thumbnail.
+ * @returns A promise that resolves to the saved product.
+ */
+export const addProduct = async (image: File, name: string, description: string): Promise<Product> => {
+    const id = crypto.randomUUID();
+    const product: Product = {
+        id,
+        name,
+        description,
+        image,
+        thumbnail: await createThumbnail(image, THUMBNAIL_SIZE, `product-${id}.jpg`),
+        createdAt: Date.now(),
+    };
+    const db = await openDatabase();
+    const tx = db.transaction(PRODUCTS_STORE, 'readwrite');
+    tx.objectStore(PRODUCTS_STORE).put(product);
+    await transactionDone(tx);
+    return product;
+};
+
+export const deleteProduct = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PRODUCTS_STORE, 'readwrite');
+    tx.objectStore(PRODUCTS_STORE).delete(id);
+    return transactionDone(tx);
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { ImageProvider } from '../imageProvider';
+import { GenerationFailure } from '../generationErrors';
+import { logAiCall, type AiCallResponseDetails } from '../aiCallLog';
+
+export const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+// A simple cache for the GenAI instance to avoid re-creating it on every call with the same key.
+let genAIInstance: GoogleGenAI | null = null;
+let lastUsedApiKey: string | null = null;
+
+const getGenAI = (apiKey: string): GoogleGenAI => {
+    if (genAIInstance && lastUsedApiKey === apiKey) {
+        return genAIInstance;
+    }
+    // A new key is provided, create a new instance.
+    genAIInstance = new GoogleGenAI({ apiKey });
+    lastUsedApiKey = apiKey;
+    return genAIInstance;
+};
+
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+const throwIfBlocked = (response: GenerateContentResponse) => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        console.error(errorMessage, { response });
+        throw new GenerationFailure({ kind: 'blocked', message: errorMessage, blockReason });
+    }
+};
+
+const handleApiResponse = (
+    response: GenerateContentResponse,
+    context: string // e.g., "edit", "filter", "adjustment"
+): string => {
+    // 1. Check for prompt blocking first
+    throwIfBlocked(response);
+
+    // 2. Try to find the image part
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        console.log(`Received image data (${mimeType}) for ${context}`);
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    // 3. If no image, check for other reasons
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        console.error(errorMessage, { response });
+        throw new GenerationFailure({ kind: 'safety-stopped', message: errorMessage, finishReason });
+    }
+
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image for the ${context}. ` +
+        (textFeedback
+            ? `The model responded with text: "${textFeedback}"`
+            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
+
+    console.error(`Model response did not contain an image part for ${context}.`, { response });
+    throw new GenerationFailure(textFeedback
+        ? { kind: 'no-image-with-text', message: errorMessage, modelText: textFeedback }
+        : { kind: 'no-image', message: errorMessage });
+};
+
+// Picks out what the call log keeps from a response
+const describeResponse = (response: GenerateContentResponse): AiCallResponseDetails => {
+    const candidate = response.candidates?.[0];
+    return {
+        finishReason: candidate?.finishReason ?? null,
+        promptFeedback: response.promptFeedback ? { ...response.promptFeedback } : null,
+        textParts: candidate?.content?.parts?.flatMap(part => part.text ? [part.text] : []) ?? [],
+        usage: response.usageMetadata ? {
+            promptTokens: response.usageMetadata.promptTokenCount ?? 0,
+            // Thinking is billed as output
+            outputTokens: (response.usageMetadata.candidatesTokenCount ?? 0) + (response.usageMetadata.thoughtsTokenCount ?? 0),
+            totalTokens: response.usageMetadata.totalTokenCount ?? 0,
+        } : null,
+    };
+};
+
+/**
+ * Creates a provider that runs generations on Gemini's image model.
+ * @param apiKey The user-provided Gemini API key.
+ */
+export const createGeminiProvider = (apiKey: string): ImageProvider => ({
+    id: 'gemini',
+    generateImage: async ({ context, prompt, images, signal }) => {
+        const ai = getGenAI(apiKey);
+        const imageParts = await Promise.all(images.map(fileToPart));
+
+        return logAiCall({ operation: context, model: GEMINI_IMAGE_MODEL, prompt, images }, async setResponse => {
+            const response = await ai.models.generateContent({
+                model: GEMINI_IMAGE_MODEL,
+                contents: { parts: [...imageParts, { text: prompt }] },
+                config: { abortSignal: signal },
+            });
+            setResponse(describeResponse(response));
+            console.log(`Received response from model for ${context}.`, response);
+            return handleApiResponse(response, context);
+        });
+    },
+    generateText: async ({ context, prompt, images = [], signal }) => {
+        const ai = getGenAI(apiKey);
+        const imageParts = await Promise.all(images.map(fileToPart));
+
+        return logAiCall({ operation: context, model: GEMINI_TEXT_MODEL, prompt, images }, async setResponse => {
+            const response = await ai.models.generateContent({
+                model: GEMINI_TEXT_MODEL,
+                contents: { parts: [...imageParts, { text: prompt }] },
+                config: { abortSignal: signal },
+            });
+            setResponse(describeResponse(response));
+            console.log(`Received text response from model for ${context}.`, response);
+            throwIfBlocked(response);
+            const text = response.text?.trim();
+            if (!text) {
+                throw new GenerationFailure({ kind: 'unknown', message: `The AI model did not return any text for the ${context}. Please try again.` });
+            }
+            return text;
+        });
+    },
+});
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageProvider, ImageGenerationRequest } from '../imageProvider';
+import { GenerationFailure } from '../generationErrors';
+import { logAiCall } from '../aiCallLog';
+
+// Short artificial delay so loading states can still be exercised offline.
+const MOCK_LATENCY_MS = 400;
+const TINT_STRENGTH = 0.35;
+
+// FNV-1a, so the same prompt always produces the same tint.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const hueToRgb = (hue: number): [number, number, number] => {
+    const f = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return Math.round(255 * (0.5 - 0.5 * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [f(0), f(8), f(4)];
+};
+
+const readPixels = async (file: File, width?: number, height?: number): Promise<ImageData> => {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = width ?? bitmap.width;
+    canvas.height = height ?? bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a canvas context for the mock provider.");
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Does the actual work of a mock generation; the provider wraps it to record the call
+const tintImage = async ({ context, prompt, images, signal }: ImageGenerationRequest): Promise<string> => {
+    if (images.length === 0) {
+        throw new GenerationFailure({ kind: 'invalid-input', message: `The mock provider needs at least one input image for ${context}.` });
+    }
+    await new Promise<void>((resolve, reject) => {
+        const handleAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', handleAbort);
+            resolve();
+        }, MOCK_LATENCY_MS);
+        signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+    const source = await readPixels(images[0]);
+    const mask = context === 'edit' && images[1]
+        ? await readPixels(images[1], source.width, source.height)
+        : null;
+
+    const [tintR, tintG, tintB] = hueToRgb(hashString(`${context}:${prompt}`) % 360);
+    const { data } = source;
+    for (let i = 0; i < data.length; i += 4) {
+        const weight = TINT_STRENGTH * (mask ? mask.data[i] / 255 : 1);
+        data[i] = data[i] + (tintR - data[i]) * weight;
+        data[i + 1] = data[i + 1] + (tintG - data[i + 1]) * weight;
+        data[i + 2] = data[i + 2] + (tintB - data[i + 2]) * weight;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a canvas context for the mock provider.");
+    ctx.putImageData(source, 0, 0);
+
+    // Label the output so mock results are never mistaken for real generations
+    const fontSize = Math.max(12, Math.round(canvas.width / 40));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, canvas.height - fontSize * 2, canvas.width, fontSize * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(`MOCK · ${context}`, fontSize / 2, canvas.height - fontSize * 0.6);
+
+    console.log(`Mock provider produced an image for ${context}.`);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Creates a provider that never touches the network. It tints the first input image with
+ * a colour derived from the prompt, so identical requests always give identical output.
+ * For edits, a second input image is treated as the mask and only its white area is tinted.
+ * Calls are still recorded in the call log, so the debug inspector works offline.
+ */
+export const createMockProvider = (): ImageProvider => ({
+    id: 'mock',
+    generateImage: (request) => logAiCall(
+        { operation: request.context, model: 'mock', prompt: request.prompt, images: request.images },
+        () => tintImage(request),
+    ),
+});
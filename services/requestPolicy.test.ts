@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runWithRetry, isAbortError } from './requestPolicy';
+import { GenerationFailure } from './generationErrors';
+
+const networkFailure = () => new GenerationFailure({ kind: 'network', message: 'Connection dropped.' });
+
+// An attempt that only settles when its signal aborts, like a stalled request
+const hangingAttempt = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason), { once: true }));
+
+describe('runWithRetry', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('returns the first successful result without retrying', async () => {
+        const attempt = vi.fn(async () => 'done');
+        await expect(runWithRetry(attempt)).resolves.toBe('done');
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries retryable failures with exponential backoff', async () => {
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(networkFailure())
+            .mockRejectedValueOnce(networkFailure())
+            .mockResolvedValueOnce('done');
+        const result = runWithRetry(attempt, { maxRetries: 2, initialBackoffMs: 100 });
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(attempt).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(attempt).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(200);
+        await expect(result).resolves.toBe('done');
+        expect(attempt).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry failures that are not retryable', async () => {
+        const error = new Error('Something broke.');
+        const attempt = vi.fn().mockRejectedValue(error);
+        await expect(runWithRetry(attempt, { maxRetries: 2 })).rejects.toBe(error);
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up with the last failure once the retries run out', async () => {
+        const last = networkFailure();
+        const attempt = vi.fn()
+            .mockRejectedValueOnce(networkFailure())
+            .mockRejectedValueOnce(last);
+        const result = runWithRetry(attempt, { maxRetries: 1, initialBackoffMs: 10 });
+        const settled = expect(result).rejects.toBe(last);
+        await vi.advanceTimersByTimeAsync(10);
+        await settled;
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it('aborts a stalled attempt on timeout and retries it', async () => {
+        const attempt = vi.fn()
+            .mockImplementationOnce(hangingAttempt)
+            .mockResolvedValueOnce('done');
+        const result = runWithRetry(attempt, { timeoutMs: 1_000, maxRetries: 1, initialBackoffMs: 10 });
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(attempt.mock.calls[0][0].aborted).toBe(true);
+        await vi.advanceTimersByTimeAsync(10);
+        await expect(result).resolves.toBe('done');
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports a network timeout once every attempt has timed out', async () => {
+        const attempt = vi.fn(hangingAttempt);
+        const result = runWithRetry(attempt, { timeoutMs: 1_000, maxRetries: 1, initialBackoffMs: 10 });
+        const settled = expect(result).rejects.toMatchObject({
+            detail: { kind: 'network', message: 'The request timed out after 1 seconds. Please try again.' },
+        });
+        await vi.advanceTimersByTimeAsync(2_010);
+        await settled;
+        expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops without retrying when the caller cancels an attempt', async () => {
+        const controller = new AbortController();
+        const attempt = vi.fn(hangingAttempt);
+        const result = runWithRetry(attempt, { signal: controller.signal });
+        controller.abort();
+
+        const error = await result.catch(e => e);
+        expect(isAbortError(error)).toBe(true);
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops when the caller cancels during the backoff', async () => {
+        const controller = new AbortController();
+        const attempt = vi.fn().mockRejectedValue(networkFailure());
+        const result = runWithRetry(attempt, { signal: controller.signal, initialBackoffMs: 1_000 });
+        await vi.advanceTimersByTimeAsync(500);
+        controller.abort();
+
+        const error = await result.catch(e => e);
+        expect(isAbortError(error)).toBe(true);
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not start at all when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const attempt = vi.fn(async () => 'done');
+
+        const error = await runWithRetry(attempt, { signal: controller.signal }).catch(e => e);
+        expect(isAbortError(error)).toBe(true);
+        expect(attempt).not.toHaveBeenCalled();
+    });
+});
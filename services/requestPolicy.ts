@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationFailure, isRetryableGenerationError, toGenerationError } from './generationErrors';
+
+export interface RequestOptions {
+    signal?: AbortSignal; // cancels the request, including any pending retries
+    timeoutMs?: number; // per attempt
+    maxRetries?: number; // retries after the first attempt, for retryable errors only
+    initialBackoffMs?: number; // doubles after every retry
+}
+
+export const DEFAULT_REQUEST_OPTIONS: Required<Omit<RequestOptions, 'signal'>> = {
+    timeoutMs: 120_000,
+    maxRetries: 2,
+    initialBackoffMs: 1_000,
+};
+
+/** Whether an error means the request was cancelled by the caller. */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+// Rejects with the signal's reason once it aborts
+const whenAborted = (signal: AbortSignal): Promise<never> =>
+    new Promise((_, reject) => {
+        if (signal.aborted) reject(signal.reason);
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const handleAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', handleAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+/**
+ * Runs a request with a per-attempt timeout, retrying retryable failures with exponential backoff.
+ * @param attempt Makes one attempt. It should stop its work when the given signal aborts.
+ * @param options Overrides for DEFAULT_REQUEST_OPTIONS, plus an optional signal to cancel with.
+ */
+export const runWithRetry = async <T>(
+    attempt: (signal: AbortSignal) => Promise<T>,
+    options: RequestOptions = {},
+): Promise<T> => {
+    const { signal, timeoutMs, maxRetries, initialBackoffMs } = { ...DEFAULT_REQUEST_OPTIONS, ...options };
+
+    for (let attemptNumber = 0; ; attemptNumber++) {
+        signal?.throwIfAborted();
+
+        // Each attempt gets its own signal that aborts on cancellation or timeout
+        const controller = new AbortController();
+        const forwardAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', forwardAbort, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort(new DOMException('The request timed out.', 'TimeoutError'));
+        }, timeoutMs);
+
+        try {
+            // Race the abort too, so a provider that ignores the signal can't keep the caller waiting
+            return await Promise.race([attempt(controller.signal), whenAborted(controller.signal)]);
+        } catch (error) {
+            if (signal?.aborted) throw signal.reason;
+            const failure = timedOut
+                ? new GenerationFailure({
+                    kind: 'network',
+                    message: `The request timed out after ${Math.round(timeoutMs / 1000)} seconds. Please try again.`,
+                })
+                : error;
+            // Timeouts, rate limits, server errors and dropped connections are usually gone on the next attempt
+            if (attemptNumber >= maxRetries || !isRetryableGenerationError(toGenerationError(failure))) throw failure;
+
+            const delay = initialBackoffMs * 2 ** attemptNumber;
+            console.warn(`Attempt ${attemptNumber + 1} failed, retrying in ${delay}ms.`, failure);
+            await sleep(delay, signal);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', forwardAbort);
+        }
+    }
+};
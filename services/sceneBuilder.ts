@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SceneFields } from '../types';
+
+const RECENT_SCENES_STORAGE_KEY = 'recent-scenes';
+const MAX_RECENT_SCENES = 6;
+
+export const EMPTY_SCENE_FIELDS: SceneFields = {
+    setting: '',
+    era: '',
+    activity: '',
+    mood: '',
+    shot: '',
+    lighting: '',
+};
+
+// Suggestions offered for each field, phrased to slot into the sentence buildScenePrompt writes
+export const SCENE_FIELD_SUGGESTIONS: Record<keyof SceneFields, string[]> = {
+    setting: ['on a fishing boat in stormy seas', 'at a backyard barbecue', 'on a busy city street', 'in a cosy living room', 'on a mountain summit', 'at a crowded stadium'],
+    era: ['present day', '1950s', '1970s', '1990s', 'Victorian era', 'distant future'],
+    activity: ['fishing', 'dancing', 'telling a story', 'cooking dinner', 'riding a motorcycle', 'celebrating a birthday'],
+    mood: ['calm and relaxed', 'joyful and chaotic', 'nostalgic', 'tense and dramatic', 'whimsical', 'heroic'],
+    shot: ['mid-shot', 'close-up', 'wide shot', 'low-angle shot', 'over-the-shoulder shot', 'aerial shot'],
+    lighting: ['warm golden-hour sunlight', 'soft overcast daylight', 'flickering candlelight', 'neon signs', 'a dramatic spotlight', 'moonlight'],
+};
+
+export const isEmptyScene = (fields: SceneFields): boolean =>
+    (Object.keys(EMPTY_SCENE_FIELDS) as (keyof SceneFields)[]).every(key => !fields[key].trim());
+
+/**
+ * Writes the fields out as a memory description. Subjects are referred to by their
+ * {Name} placeholders, which are swapped for their photos when the memory is created.
+ */
+export const buildScenePrompt = (fields: SceneFields, subjectNames: string[]): string => {
+    // Trailing full stops would double up with the ones added between sentences
+    const clean = (value: string) => value.trim().replace(/\.+$/, '');
+    const [setting, era, activity, mood, shot, lighting] =
+        [fields.setting, fields.era, fields.activity, fields.mood, fields.shot, fields.lighting].map(clean);
+    const tokens = subjectNames.map(name => `{${name}}`);
+    const who = tokens.length > 1 ? `${tokens.slice(0, -1).join(', ')} and ${tokens[tokens.length - 1]}` : tokens[0] ?? 'the subject';
+
+    const scene = [`A high definition cinematic ${shot ? `${shot} ` : ''}photograph of ${who}`, activity, setting].filter(Boolean).join(' ');
+    return [
+        `${scene}${era ? `, set in the ${era}` : ''}.`,
+        mood && `The mood is ${mood}.`,
+        lighting && `Lit by ${lighting}.`,
+    ].filter(Boolean).join(' ');
+};
+
+/** A one-line label for a remembered combination, e.g. "fishing · on a boat · 1970s". */
+export const describeScene = (fields: SceneFields): string =>
+    [fields.activity, fields.setting, fields.era, fields.mood].map(value => value.trim()).filter(Boolean).join(' · ') || 'Untitled scene';
+
+export const loadRecentScenes = (): SceneFields[] => {
+    try {
+        const stored = localStorage.getItem(RECENT_SCENES_STORAGE_KEY);
+        const scenes: Partial<SceneFields>[] = stored ? JSON.parse(stored) : [];
+        return Array.isArray(scenes) ? scenes.map(scene => ({ ...EMPTY_SCENE_FIELDS, ...scene })) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Moves a combination to the front of the recent list, dropping the oldest past the limit.
+ * @returns The updated list.
+ */
+export const rememberScene = (fields: SceneFields): SceneFields[] => {
+    const key = JSON.stringify(fields);
+    const scenes = [fields, ...loadRecentScenes().filter(scene => JSON.stringify(scene) !== key)].slice(0, MAX_RECENT_SCENES);
+    try {
+        localStorage.setItem(RECENT_SCENES_STORAGE_KEY, JSON.stringify(scenes));
+    } catch (e) {
+        console.error("Failed to save recent scenes", e);
+    }
+    return scenes;
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDatabase, requestToPromise, transactionDone, SESSIONS_STORE, STEPS_STORE } from './db';
+import type { HistoryNode, SessionInfo, SessionSummary } from '../types';
+
+interface SessionRecord extends SessionInfo {
+    updatedAt: number;
+    stepIds: string[];
+    currentStepId: string;
+}
+
+// Steps are stored separately from their session so saving only writes new images.
+interface StepRecord extends HistoryNode {
+    sessionId: string;
+}
+
+const toHistoryNode = ({ id, file, operation, prompt, parentId, createdAt }: StepRecord): HistoryNode =>
+    ({ id, file, operation, prompt, parentId, createdAt });
+
+/**
+ * Saves a session's history tree. Steps already in the database are left untouched and
+ * steps no longer referenced by the history are removed.
+ */
+export const saveSession = async (session: SessionInfo, history: HistoryNode[], currentNodeId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, STEPS_STORE], 'readwrite');
+    const steps = tx.objectStore(STEPS_STORE);
+
+    const record: SessionRecord = {
+        ...session,
+        updatedAt: Date.now(),
+        stepIds: history.map(node => node.id),
+        currentStepId: currentNodeId,
+    };
+    tx.objectStore(SESSIONS_STORE).put(record);
+
+    const keysRequest = steps.index('sessionId').getAllKeys(session.id);
+    keysRequest.onsuccess = () => {
+        const storedIds = new Set(keysRequest.result as string[]);
+        const currentIds = new Set(record.stepIds);
+        history
+            .filter(node => !storedIds.has(node.id))
+            .forEach(node => steps.put({ ...node, sessionId: session.id } satisfies StepRecord));
+        storedIds.forEach(id => {
+            if (!currentIds.has(id)) steps.delete(id);
+        });
+    };
+
+    return transactionDone(tx);
+};
+
+/**
+ * Lists all saved sessions, most recently edited first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, STEPS_STORE], 'readonly');
+    const records = await requestToPromise<SessionRecord[]>(tx.objectStore(SESSIONS_STORE).getAll());
+
+    const summaries = await Promise.all(records.map(async ({ id, name, createdAt, updatedAt, stepIds, currentStepId }) => {
+        const step = await requestToPromise<StepRecord | undefined>(tx.objectStore(STEPS_STORE).get(currentStepId));
+        return { id, name, createdAt, updatedAt, stepCount: stepIds.length, thumbnail: step?.file ?? null };
+    }));
+
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a saved session with its full history tree.
+ * @returns The session, or null if it no longer exists.
+ */
+export const loadSession = async (id: string): Promise<{ session: SessionInfo; history: HistoryNode[]; currentNodeId: string } | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, STEPS_STORE], 'readonly');
+    const record = await requestToPromise<SessionRecord | undefined>(tx.objectStore(SESSIONS_STORE).get(id));
+    if (!record) return null;
+
+    const stepRecords = await requestToPromise<StepRecord[]>(tx.objectStore(STEPS_STORE).index('sessionId').getAll(id));
+    const stepsById = new Map(stepRecords.map(step => [step.id, step]));
+    const history: HistoryNode[] = record.stepIds
+        .map(stepId => stepsById.get(stepId))
+        .filter((step): step is StepRecord => !!step)
+        .map(toHistoryNode);
+    if (history.length === 0) return null;
+
+    const { currentStepId } = record;
+    return {
+        session: { id: record.id, name: record.name, createdAt: record.createdAt, metadata: record.metadata ?? null },
+        history,
+        currentNodeId: history.some(node => node.id === currentStepId) ? currentStepId : history[history.length - 1].id,
+    };
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(SESSIONS_STORE);
+    const record = await requestToPromise<SessionRecord | undefined>(store.get(id));
+    if (record) {
+        store.put({ ...record, name });
+    }
+    return transactionDone(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, STEPS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(id);
+    const steps = tx.objectStore(STEPS_STORE);
+    const keysRequest = steps.index('sessionId').getAllKeys(id);
+    keysRequest.onsuccess = () => {
+        keysRequest.result.forEach(key => steps.delete(key));
+    };
+    return transactionDone(tx);
+};
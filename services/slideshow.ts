@@ -0,0 +1,324 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGifEncoder } from './gifEncoder';
+import { createAnimatedWebp, type WebpFrame } from './animatedWebp';
+import { isExportFormatSupported } from './imageExport';
+import type { Slide, SlideshowFormat, SlideshowSettings } from '../types';
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+    format: 'webm',
+    aspectRatio: '16:9',
+    longEdge: 720,
+    kenBurns: true,
+    crossfade: 0.8,
+    showCaptions: true,
+};
+
+export const DEFAULT_SLIDE_DURATION = 3;
+
+// GIF and WebP store every frame whole, so they run at a lower rate than video
+const FRAME_RATES: Record<SlideshowFormat, number> = { gif: 12, webp: 15, webm: 30 };
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+const KEN_BURNS_ZOOM = 1.15;
+// Pan directions, cycled through so consecutive slides drift different ways
+const KEN_BURNS_DIRECTIONS: [number, number][] = [[-1, -1], [1, 1], [1, -1], [-1, 1]];
+
+const ASPECT_RATIOS: Record<SlideshowSettings['aspectRatio'], number> = {
+    '16:9': 16 / 9,
+    '1:1': 1,
+    '4:5': 4 / 5,
+    '9:16': 9 / 16,
+};
+
+export const SLIDESHOW_EXTENSIONS: Record<SlideshowFormat, string> = { gif: 'gif', webp: 'webp', webm: 'webm' };
+
+interface SlideTiming {
+    start: number;
+    end: number;
+}
+
+interface PreparedSlide {
+    bitmap: ImageBitmap;
+    caption: string;
+    timing: SlideTiming;
+}
+
+export interface SlideshowRenderOptions {
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+}
+
+const pickWebmType = (): string | null =>
+    typeof MediaRecorder === 'undefined' ? null : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+/** Checks whether this browser can write the format. */
+export const isSlideshowFormatSupported = async (format: SlideshowFormat): Promise<boolean> => {
+    switch (format) {
+        case 'gif':
+            return true;
+        case 'webp':
+            return isExportFormatSupported('webp');
+        case 'webm':
+            return pickWebmType() !== null;
+    }
+};
+
+/** The output size in pixels. Video encoders need even dimensions, so both are rounded to even numbers. */
+export const getSlideshowFrameSize = (settings: SlideshowSettings): { width: number; height: number } => {
+    const ratio = ASPECT_RATIOS[settings.aspectRatio];
+    const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+    return ratio >= 1
+        ? { width: even(settings.longEdge), height: even(settings.longEdge / ratio) }
+        : { width: even(settings.longEdge * ratio), height: even(settings.longEdge) };
+};
+
+// Crossfades overlap neighbouring slides, so no fade may take more than half of any slide
+const getCrossfade = (slides: Slide[], settings: SlideshowSettings): number =>
+    slides.length < 2 ? 0 : Math.min(settings.crossfade, ...slides.map(slide => slide.duration / 2));
+
+const getSlideTimings = (slides: Slide[], crossfade: number): SlideTiming[] => {
+    let start = 0;
+    return slides.map(slide => {
+        const timing = { start, end: start + slide.duration };
+        start = timing.end - crossfade;
+        return timing;
+    });
+};
+
+/** The slideshow's running time in seconds. */
+export const getSlideshowDuration = (slides: Slide[], settings: SlideshowSettings): number =>
+    getSlideTimings(slides, getCrossfade(slides, settings)).at(-1)?.end ?? 0;
+
+// Decodes each slide at no more than the size it's drawn at, so long slideshows stay light on memory
+const prepareSlides = async (slides: Slide[], timings: SlideTiming[], width: number, height: number): Promise<PreparedSlide[]> => {
+    const prepared: PreparedSlide[] = [];
+    try {
+        for (const [index, slide] of slides.entries()) {
+            const source = await createImageBitmap(slide.image);
+            const scale = Math.min(1, Math.max(width / source.width, height / source.height) * KEN_BURNS_ZOOM);
+            const bitmap = scale < 1
+                ? await createImageBitmap(source, { resizeWidth: Math.round(source.width * scale), resizeHeight: Math.round(source.height * scale), resizeQuality: 'high' })
+                : source;
+            if (bitmap !== source) source.close();
+            prepared.push({ bitmap, caption: slide.caption.trim(), timing: timings[index] });
+        }
+        return prepared;
+    } catch (e) {
+        prepared.forEach(slide => slide.bitmap.close());
+        throw e;
+    }
+};
+
+// Splits the caption into at most two lines that fit the frame
+const wrapCaption = (ctx: CanvasRenderingContext2D, caption: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of caption.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    if (lines.length > 2) {
+        lines.length = 2;
+        lines[1] = `${lines[1]}…`;
+    }
+    return lines;
+};
+
+const drawSlide = (ctx: CanvasRenderingContext2D, slide: PreparedSlide, index: number, time: number, settings: SlideshowSettings) => {
+    const { width, height } = ctx.canvas;
+    const { bitmap, timing } = slide;
+    const progress = Math.min(1, Math.max(0, (time - timing.start) / (timing.end - timing.start)));
+
+    // Cover the frame; Ken Burns alternates zooming in and out while drifting towards a corner
+    let zoom = 1;
+    let pan = 0;
+    if (settings.kenBurns) {
+        zoom = index % 2 === 0 ? 1 + (KEN_BURNS_ZOOM - 1) * progress : KEN_BURNS_ZOOM - (KEN_BURNS_ZOOM - 1) * progress;
+        pan = progress * 2 - 1;
+    }
+    const scale = Math.max(width / bitmap.width, height / bitmap.height) * zoom;
+    const drawWidth = bitmap.width * scale;
+    const drawHeight = bitmap.height * scale;
+    const [directionX, directionY] = KEN_BURNS_DIRECTIONS[index % KEN_BURNS_DIRECTIONS.length];
+    const x = (width - drawWidth) / 2 + directionX * pan * (drawWidth - width) / 2;
+    const y = (height - drawHeight) / 2 + directionY * pan * (drawHeight - height) / 2;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, x, y, drawWidth, drawHeight);
+
+    if (settings.showCaptions && slide.caption) {
+        const fontSize = Math.round(Math.min(width, height) / 16);
+        ctx.font = `600 ${fontSize}px sans-serif`;
+        const lines = wrapCaption(ctx, slide.caption, width * 0.9);
+        const bandHeight = fontSize * (lines.length * 1.3 + 1.2);
+        const gradient = ctx.createLinearGradient(0, height - bandHeight, 0, height);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0.75)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, height - bandHeight, width, bandHeight);
+        ctx.fillStyle = '#ffffff';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        lines.forEach((line, i) => {
+            ctx.fillText(line, width / 2, height - fontSize * (0.8 + (lines.length - 1 - i) * 1.3));
+        });
+    }
+};
+
+// Draws the slideshow as it looks at the given time: each visible slide over the one before it,
+// faded in while the crossfade into it runs
+const drawFrame = (ctx: CanvasRenderingContext2D, slides: PreparedSlide[], time: number, crossfade: number, settings: SlideshowSettings) => {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    slides.forEach((slide, index) => {
+        const { start, end } = slide.timing;
+        if (time < start || (time >= end && index < slides.length - 1)) return;
+        ctx.globalAlpha = index > 0 && crossfade > 0 ? Math.min(1, (time - start) / crossfade) : 1;
+        drawSlide(ctx, slide, index, time, settings);
+    });
+    ctx.globalAlpha = 1;
+};
+
+/**
+ * Lists the frames to encode as start times and durations, in seconds. Without Ken Burns a
+ * slide doesn't move between crossfades, so each of those stretches is a single long frame.
+ */
+const planFrames = (timings: SlideTiming[], crossfade: number, settings: SlideshowSettings, fps: number): { time: number; duration: number }[] => {
+    const frames: { time: number; duration: number }[] = [];
+    const addMovingFrames = (from: number, to: number) => {
+        const count = Math.max(1, Math.round((to - from) * fps));
+        for (let i = 0; i < count; i++) {
+            frames.push({ time: from + (to - from) * i / count, duration: (to - from) / count });
+        }
+    };
+    const total = timings.at(-1)?.end ?? 0;
+    if (settings.kenBurns) {
+        addMovingFrames(0, total);
+        return frames;
+    }
+    timings.forEach((timing, index) => {
+        const holdStart = index > 0 ? timing.start + crossfade : timing.start;
+        const holdEnd = index < timings.length - 1 ? timing.end - crossfade : timing.end;
+        if (holdEnd > holdStart) frames.push({ time: holdStart, duration: holdEnd - holdStart });
+        if (index < timings.length - 1 && crossfade > 0) addMovingFrames(timing.end - crossfade, timing.end);
+    });
+    return frames;
+};
+
+// Lets the page repaint between frames and stops promptly when cancelled
+const nextTick = (signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => setTimeout(() => signal?.aborted ? reject(signal.reason) : resolve(), 0));
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+
+// MediaRecorder captures in real time, so the slideshow is played through once on the canvas
+const recordWebm = (
+    canvas: HTMLCanvasElement,
+    drawAt: (time: number) => void,
+    duration: number,
+    fps: number,
+    { onProgress, signal }: SlideshowRenderOptions,
+): Promise<Blob> => new Promise((resolve, reject) => {
+    const mimeType = pickWebmType();
+    if (!mimeType) {
+        reject(new Error("Your browser can't record WebM video. Please pick another format."));
+        return;
+    }
+    const stream = canvas.captureStream(fps);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        if (signal?.aborted) {
+            reject(signal.reason);
+        } else {
+            resolve(new Blob(chunks, { type: 'video/webm' }));
+        }
+    };
+
+    drawAt(0);
+    recorder.start(1000);
+    const startedAt = performance.now();
+    // Timers rather than animation frames, so recording carries on if the tab is hidden
+    const tick = () => {
+        const time = (performance.now() - startedAt) / 1000;
+        drawAt(Math.min(time, duration));
+        onProgress?.(Math.min(1, time / duration));
+        if (signal?.aborted || time >= duration) {
+            recorder.stop();
+        } else {
+            setTimeout(tick, 1000 / fps);
+        }
+    };
+    setTimeout(tick, 1000 / fps);
+});
+
+/**
+ * Renders the slides as an animated GIF, animated WebP or WebM video, entirely in the browser.
+ * WebM is recorded in real time, so it takes as long as the slideshow runs.
+ * @returns A promise that resolves to the encoded slideshow.
+ */
+export const renderSlideshow = async (slides: Slide[], settings: SlideshowSettings, options: SlideshowRenderOptions = {}): Promise<Blob> => {
+    if (slides.length === 0) throw new Error("Pick at least one image for the slideshow.");
+    const { onProgress, signal } = options;
+    const { width, height } = getSlideshowFrameSize(settings);
+    const crossfade = getCrossfade(slides, settings);
+    const timings = getSlideTimings(slides, crossfade);
+    const fps = FRAME_RATES[settings.format];
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    // Every frame is opaque, so there's no alpha channel for the encoders to carry
+    const ctx = canvas.getContext('2d', { alpha: false, willReadFrequently: settings.format === 'gif' });
+    if (!ctx) throw new Error("Could not create a canvas to render the slideshow.");
+
+    const prepared = await prepareSlides(slides, timings, width, height);
+    try {
+        const drawAt = (time: number) => drawFrame(ctx, prepared, time, crossfade, settings);
+
+        if (settings.format === 'webm') {
+            return await recordWebm(canvas, drawAt, timings.at(-1)!.end, fps, options);
+        }
+
+        const frames = planFrames(timings, crossfade, settings, fps);
+        if (settings.format === 'gif') {
+            const encoder = createGifEncoder(width, height);
+            for (const [index, frame] of frames.entries()) {
+                drawAt(frame.time);
+                encoder.addFrame(ctx.getImageData(0, 0, width, height).data, frame.duration * 1000);
+                onProgress?.((index + 1) / frames.length);
+                await nextTick(signal);
+            }
+            return encoder.finish();
+        }
+
+        const webpFrames: WebpFrame[] = [];
+        for (const [index, frame] of frames.entries()) {
+            drawAt(frame.time);
+            const image = await canvasToBlob(canvas, 'image/webp', 0.85);
+            if (!image || image.type !== 'image/webp') {
+                throw new Error("Your browser can't save WebP images. Please pick another format.");
+            }
+            webpFrames.push({ image, durationMs: frame.duration * 1000 });
+            onProgress?.((index + 1) / frames.length);
+            await nextTick(signal);
+        }
+        return await createAnimatedWebp(webpFrames, width, height);
+    } finally {
+        prepared.forEach(slide => slide.bitmap.close());
+    }
+};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createImageProgram, renderImageFile, type ImageRendererFactory } from './webgl';
+import type { ToneSettings } from '../types';
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+    exposure: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    saturation: 0,
+    vibrance: 0,
+    temperature: 0,
+    tint: 0,
+    sharpness: 0,
+};
+
+export const isNeutralTone = (settings: ToneSettings): boolean =>
+    (Object.keys(DEFAULT_TONE_SETTINGS) as (keyof ToneSettings)[])
+        .every(key => settings[key] === DEFAULT_TONE_SETTINGS[key]);
+
+/**
+ * Summarises the non-default settings, e.g. "Exposure +0.50, Contrast +20".
+ * Used as the history label for a tone step.
+ */
+export const describeToneSettings = (settings: ToneSettings): string =>
+    (Object.keys(DEFAULT_TONE_SETTINGS) as (keyof ToneSettings)[])
+        .filter(key => settings[key] !== DEFAULT_TONE_SETTINGS[key])
+        .map(key => {
+            const value = settings[key];
+            const formatted = key === 'exposure' ? value.toFixed(2) : String(Math.round(value));
+            return `${key[0].toUpperCase()}${key.slice(1)} ${value > 0 ? '+' : ''}${formatted}`;
+        })
+        .join(', ');
+
+const FRAGMENT_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform vec2 u_texel;
+uniform float u_exposure;
+uniform float u_contrast;
+uniform float u_highlights;
+uniform float u_shadows;
+uniform float u_saturation;
+uniform float u_vibrance;
+uniform float u_temperature;
+uniform float u_tint;
+uniform float u_sharpness;
+varying vec2 v_texCoord;
+
+float luma(vec3 c) {
+    return dot(c, vec3(0.2126, 0.7152, 0.0722));
+}
+
+void main() {
+    vec4 texel = texture2D(u_image, v_texCoord);
+    vec3 color = texel.rgb;
+
+    // Unsharp mask against the average of the four direct neighbours
+    if (u_sharpness > 0.0) {
+        vec3 blur = (
+            texture2D(u_image, v_texCoord + vec2(u_texel.x, 0.0)).rgb +
+            texture2D(u_image, v_texCoord - vec2(u_texel.x, 0.0)).rgb +
+            texture2D(u_image, v_texCoord + vec2(0.0, u_texel.y)).rgb +
+            texture2D(u_image, v_texCoord - vec2(0.0, u_texel.y)).rgb
+        ) * 0.25;
+        color += (color - blur) * u_sharpness * 2.0;
+    }
+
+    // Exposure and white balance behave like a camera in linear light
+    color = pow(clamp(color, 0.0, 1.0), vec3(2.2));
+    color *= pow(2.0, u_exposure);
+    color *= vec3(1.0 + u_temperature * 0.2, 1.0 - u_tint * 0.2, 1.0 - u_temperature * 0.2);
+    color = pow(clamp(color, 0.0, 1.0), vec3(1.0 / 2.2));
+
+    // Shadows and highlights only move their own end of the tonal range
+    float l = luma(color);
+    float shadowWeight = 1.0 - smoothstep(0.0, 0.5, l);
+    float highlightWeight = smoothstep(0.5, 1.0, l);
+    float target = l + u_shadows * 0.35 * shadowWeight + u_highlights * 0.35 * highlightWeight;
+    color *= clamp(target, 0.0, 1.0) / max(l, 0.0001);
+
+    color = (color - 0.5) * (1.0 + u_contrast) + 0.5;
+
+    // Vibrance boosts muted colours more than already saturated ones
+    float gray = luma(color);
+    float currentSaturation = max(max(color.r, color.g), color.b) - min(min(color.r, color.g), color.b);
+    float saturationScale = 1.0 + u_saturation + u_vibrance * (1.0 - currentSaturation);
+    color = mix(vec3(gray), color, saturationScale);
+
+    gl_FragColor = vec4(clamp(color, 0.0, 1.0), texel.a);
+}`;
+
+/**
+ * Creates a WebGL renderer that draws the tone-adjusted image into the given canvas.
+ */
+export const createToneRenderer: ImageRendererFactory<ToneSettings> = (canvas) => {
+    const { gl, uniform, setSourceImage, draw, dispose } = createImageProgram(canvas, FRAGMENT_SHADER);
+
+    return {
+        setImage: (source) => {
+            setSourceImage(source);
+            gl.uniform2f(uniform('u_texel'), 1 / source.width, 1 / source.height);
+        },
+        render: (settings) => {
+            gl.uniform1f(uniform('u_exposure'), settings.exposure);
+            gl.uniform1f(uniform('u_contrast'), settings.contrast / 100);
+            gl.uniform1f(uniform('u_highlights'), settings.highlights / 100);
+            gl.uniform1f(uniform('u_shadows'), settings.shadows / 100);
+            gl.uniform1f(uniform('u_saturation'), settings.saturation / 100);
+            gl.uniform1f(uniform('u_vibrance'), settings.vibrance / 100);
+            gl.uniform1f(uniform('u_temperature'), settings.temperature / 100);
+            gl.uniform1f(uniform('u_tint'), settings.tint / 100);
+            gl.uniform1f(uniform('u_sharpness'), settings.sharpness / 100);
+            draw();
+        },
+        dispose,
+    };
+};
+
+/**
+ * Applies tone settings to an image file at full resolution.
+ * @returns A promise that resolves to a PNG file of the adjusted image.
+ */
+export const applyToneAdjustments = (image: File, settings: ToneSettings): Promise<File> =>
+    renderImageFile(image, createToneRenderer, settings, 'adjusted');
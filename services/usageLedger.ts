@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { onAiCallRecorded } from './aiCallLog';
+import { GEMINI_IMAGE_MODEL, GEMINI_TEXT_MODEL } from './providers/geminiProvider';
+import type { AiCallRecord, UsageBudget, UsageEntry } from '../types';
+
+// Kept for the browser session, like the API key
+const LEDGER_STORAGE_KEY = 'usage-ledger';
+const BUDGET_STORAGE_KEY = 'usage-budget';
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { mode: 'off', limitUsd: 5 };
+
+// US dollars per million tokens, from the Gemini API's published pay-as-you-go prices
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    [GEMINI_IMAGE_MODEL]: { input: 0.30, output: 30 },
+    [GEMINI_TEXT_MODEL]: { input: 0.30, output: 2.50 },
+};
+// What one generated image is billed as, for responses that came back without usage metadata
+const IMAGE_OUTPUT_TOKENS = 1290;
+
+export interface UsageTotals {
+    calls: number;
+    failed: number;
+    promptTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    byOperation: Record<string, { calls: number; failed: number; costUsd: number }>;
+}
+
+const isUsageEntry = (value: unknown): value is UsageEntry => {
+    const entry = value as Partial<UsageEntry> | null;
+    return !!entry
+        && typeof entry.at === 'number'
+        && typeof entry.operation === 'string'
+        && typeof entry.model === 'string'
+        && (entry.status === 'success' || entry.status === 'failed' || entry.status === 'cancelled')
+        && typeof entry.costUsd === 'number' && Number.isFinite(entry.costUsd)
+        && (entry.usage === null || (typeof entry.usage === 'object' && typeof entry.usage?.promptTokens === 'number' && typeof entry.usage?.outputTokens === 'number'));
+};
+
+// Anything that doesn't look like an entry is dropped, so a damaged ledger can't break the totals
+const loadEntries = (): UsageEntry[] => {
+    try {
+        const stored: unknown = JSON.parse(sessionStorage.getItem(LEDGER_STORAGE_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored.filter(isUsageEntry) : [];
+    } catch {
+        return [];
+    }
+};
+
+let entries: UsageEntry[] = loadEntries();
+const listeners = new Set<(entries: UsageEntry[]) => void>();
+
+const update = (next: UsageEntry[]) => {
+    entries = next;
+    try {
+        sessionStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+        // Runs inside the providers' logging, so a full or unavailable storage must not fail the call
+        console.warn("Could not save the usage ledger", e);
+    }
+    listeners.forEach(listener => listener(entries));
+};
+
+/**
+ * Estimates what a call cost from its token counts. Calls to unpriced models, like the mock
+ * provider, are free, and calls without usage metadata only count a successfully generated image.
+ */
+const estimateCost = ({ model, status, usage }: AiCallRecord): number => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) return 0;
+    if (usage) return (usage.promptTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+    return status === 'success' && model === GEMINI_IMAGE_MODEL ? IMAGE_OUTPUT_TOKENS * pricing.output / 1_000_000 : 0;
+};
+
+// Every call the providers record is also counted here, from the moment this module is first imported
+onAiCallRecorded(record => {
+    const { startedAt, operation, model, status, usage } = record;
+    update([...entries, { at: startedAt, operation, model, status, usage, costUsd: estimateCost(record) }]);
+});
+
+export const getUsageEntries = (): UsageEntry[] => entries;
+
+export const resetUsage = (): void => update([]);
+
+/**
+ * Calls the listener with every entry whenever the ledger changes.
+ * @returns A function that stops listening.
+ */
+export const subscribeToUsage = (listener: (entries: UsageEntry[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const summarizeUsage = (usageEntries: UsageEntry[]): UsageTotals => {
+    const totals: UsageTotals = { calls: 0, failed: 0, promptTokens: 0, outputTokens: 0, costUsd: 0, byOperation: {} };
+    for (const { operation, status, usage, costUsd } of usageEntries) {
+        const failed = status === 'success' ? 0 : 1;
+        totals.calls++;
+        totals.failed += failed;
+        totals.promptTokens += usage?.promptTokens ?? 0;
+        totals.outputTokens += usage?.outputTokens ?? 0;
+        totals.costUsd += costUsd;
+        const forOperation = totals.byOperation[operation] ??= { calls: 0, failed: 0, costUsd: 0 };
+        forOperation.calls++;
+        forOperation.failed += failed;
+        forOperation.costUsd += costUsd;
+    }
+    return totals;
+};
+
+const BUDGET_MODES: UsageBudget['mode'][] = ['off', 'soft', 'hard'];
+
+// Each stored field that isn't valid falls back to the default, so a damaged value can't quietly switch a budget off
+export const loadUsageBudget = (): UsageBudget => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) ?? 'null') as Partial<Record<keyof UsageBudget, unknown>> | null;
+        if (!stored || typeof stored !== 'object') return DEFAULT_USAGE_BUDGET;
+        const { mode, limitUsd } = stored;
+        return {
+            mode: BUDGET_MODES.includes(mode as UsageBudget['mode']) ? mode as UsageBudget['mode'] : DEFAULT_USAGE_BUDGET.mode,
+            limitUsd: typeof limitUsd === 'number' && Number.isFinite(limitUsd) && limitUsd >= 0 ? limitUsd : DEFAULT_USAGE_BUDGET.limitUsd,
+        };
+    } catch {
+        return DEFAULT_USAGE_BUDGET;
+    }
+};
+
+export const saveUsageBudget = (budget: UsageBudget): void => {
+    try {
+        localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+    } catch (e) {
+        console.warn("Could not save the usage budget", e);
+    }
+};
+
+/** Whether the estimated spend has reached the budget. Always false when the budget is off. */
+export const isBudgetReached = (budget: UsageBudget, usageEntries: UsageEntry[] = entries): boolean =>
+    budget.mode !== 'off' && summarizeUsage(usageEntries).costUsd >= budget.limitUsd;
+
+export const formatCost = (costUsd: number): string =>
+    costUsd > 0 && costUsd < 0.01 ? '<$0.01' : `$${costUsd.toFixed(2)}`;
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A local, full-resolution image effect drawn into a canvas.
+ * Cheap enough to re-render on every slider change.
+ */
+export interface ImageRenderer<TParams> {
+    /** Uploads a new source image and resizes the canvas to its natural size. */
+    setImage: (source: ImageBitmap) => void;
+    render: (params: TParams) => void;
+    dispose: () => void;
+}
+
+export type ImageRendererFactory<TParams> = (canvas: HTMLCanvasElement) => ImageRenderer<TParams>;
+
+export interface ImageProgram {
+    gl: WebGLRenderingContext;
+    uniform: (name: string) => WebGLUniformLocation | null;
+    /** Uploads the source image into texture unit 0 and sizes the canvas to match. */
+    setSourceImage: (source: ImageBitmap) => void;
+    draw: () => void;
+    dispose: () => void;
+}
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_texCoord;
+void main() {
+    // Texture rows start at the top of the image, clip space starts at the bottom
+    v_texCoord = vec2(a_position.x + 1.0, 1.0 - a_position.y) * 0.5;
+    gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error("Could not create a WebGL shader.");
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`Could not compile an image shader: ${log}`);
+    }
+    return shader;
+};
+
+/**
+ * Creates a texture suitable for non-power-of-two images, which in WebGL 1 need
+ * clamping and no mipmaps.
+ */
+export const createTexture = (gl: WebGLRenderingContext, filter: number): WebGLTexture => {
+    const texture = gl.createTexture();
+    if (!texture) throw new Error("Could not create a WebGL texture.");
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+    return texture;
+};
+
+let maxTextureSize: number | undefined;
+
+/**
+ * Reads the largest texture side this device supports, from a throwaway context.
+ * @returns The limit in pixels, or 0 if WebGL is unavailable.
+ */
+export const getMaxTextureSize = (): number => {
+    if (maxTextureSize === undefined) {
+        const gl = document.createElement('canvas').getContext('webgl');
+        maxTextureSize = gl ? gl.getParameter(gl.MAX_TEXTURE_SIZE) as number : 0;
+        gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+    return maxTextureSize;
+};
+
+/**
+ * Sets up a WebGL program that draws the source image through the given fragment shader
+ * over the whole canvas. The shader receives `u_image` and `v_texCoord`.
+ */
+export const createImageProgram = (canvas: HTMLCanvasElement, fragmentShaderSource: string): ImageProgram => {
+    const gl = canvas.getContext('webgl', { preserveDrawingBuffer: true, premultipliedAlpha: false });
+    if (!gl) throw new Error("Local adjustments need WebGL, which is not available in this browser.");
+
+    const program = gl.createProgram();
+    if (!program) throw new Error("Could not create a WebGL program.");
+    const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(`Could not link an image shader: ${gl.getProgramInfoLog(program)}`);
+    }
+    gl.useProgram(program);
+
+    // A single full-screen quad
+    const positionBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    const positionLocation = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+    gl.activeTexture(gl.TEXTURE0);
+    const imageTexture = createTexture(gl, gl.NEAREST);
+    const uniform = (name: string) => gl.getUniformLocation(program, name);
+    gl.uniform1i(uniform('u_image'), 0);
+    const maxTextureSize: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+
+    return {
+        gl,
+        uniform,
+        setSourceImage: (source) => {
+            if (source.width > maxTextureSize || source.height > maxTextureSize) {
+                throw new Error(`This image is too large for local adjustments (limit ${maxTextureSize}px per side).`);
+            }
+            canvas.width = source.width;
+            canvas.height = source.height;
+            gl.viewport(0, 0, source.width, source.height);
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, imageTexture);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+        },
+        draw: () => gl.drawArrays(gl.TRIANGLES, 0, 6),
+        dispose: () => {
+            gl.deleteTexture(imageTexture);
+            gl.deleteBuffer(positionBuffer);
+            gl.deleteProgram(program);
+            gl.deleteShader(vertexShader);
+            gl.deleteShader(fragmentShader);
+        },
+    };
+};
+
+/**
+ * Runs a renderer once over an image file at full resolution.
+ * @returns A promise that resolves to a PNG file of the result.
+ */
+export const renderImageFile = async <TParams>(
+    image: File,
+    createRenderer: ImageRendererFactory<TParams>,
+    params: TParams,
+    filenamePrefix: string,
+): Promise<File> => {
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    const renderer = createRenderer(canvas);
+    try {
+        renderer.setImage(bitmap);
+        renderer.render(params);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error("Could not encode the processed image.");
+        return new File([blob], `${filenamePrefix}-${Date.now()}.png`, { type: 'image/png' });
+    } finally {
+        renderer.dispose();
+        bitmap.close();
+    }
+};
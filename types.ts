@@ -2,3 +2,280 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+// The active selection tool on the retouch tab. 'point' picks a single hotspot,
+// the others paint a mask over the region to edit.
+export type RetouchTool = 'point' | 'brush' | 'eraser' | 'lasso';
+
+// How the current image is compared with an earlier step. Press-and-hold compare works in any mode.
+export type CompareMode = 'off' | 'split' | 'side-by-side';
+
+// The kind of operation that produced a history step.
+export type EditOperation = 'upload' | 'memory' | 'retouch' | 'product' | 'filter' | 'adjust' | 'crop';
+
+// A step in the branching edit history. Every step except the first has a parent,
+// and undoing then editing again starts a new branch instead of discarding the old one.
+export interface HistoryNode {
+  id: string;
+  parentId: string | null;
+  file: File;
+  operation: EditOperation;
+  prompt: string | null; // the user's prompt for AI steps, null for uploads and crops
+  createdAt: number;
+}
+
+// Metadata read from an uploaded photo's EXIF block. The working copy of the photo is
+// stored without it; these are written back into exports only when the user asks for them.
+export interface ImageMetadata {
+  capturedAt: string | null; // EXIF date format, "YYYY:MM:DD HH:MM:SS"
+  description: string | null;
+  location: { latitude: number; longitude: number } | null;
+}
+
+// Identifies a persisted editing session.
+export interface SessionInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  metadata?: ImageMetadata | null; // from the uploaded photo; absent for memories and older sessions
+}
+
+export interface SessionSummary extends SessionInfo {
+  updatedAt: number;
+  stepCount: number;
+  thumbnail: File | null; // the step the session was left on
+}
+
+// Local (non-AI) tonal adjustments. Exposure is in stops (-2..2), sharpness is 0..100,
+// everything else runs from -100 to 100 with 0 meaning "unchanged".
+export interface ToneSettings {
+  exposure: number;
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  saturation: number;
+  vibrance: number;
+  temperature: number;
+  tint: number;
+  sharpness: number;
+}
+
+// Rotation and mirroring applied on the crop tab before the crop itself.
+export interface ImageTransform {
+  quarterTurns: number; // clockwise 90° turns, 0..3
+  straighten: number; // fine rotation in degrees, -45..45; the image is zoomed in to hide the corners
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+// A crop selection as percentages (0..100) of the transformed image, as react-image-crop reports it.
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type SlideshowFormat = 'gif' | 'webp' | 'webm';
+
+// One image in a slideshow.
+export interface Slide {
+  id: string;
+  image: File;
+  caption: string; // drawn across the bottom of the slide when captions are on; empty for none
+  duration: number; // seconds on screen, including the crossfades into and out of it
+}
+
+// Options chosen in the slideshow dialog.
+export interface SlideshowSettings {
+  format: SlideshowFormat;
+  aspectRatio: '16:9' | '1:1' | '4:5' | '9:16';
+  longEdge: number; // output size in pixels along the longer side
+  kenBurns: boolean; // slowly pan and zoom across each slide
+  crossfade: number; // seconds; 0 cuts straight to the next slide
+  showCaptions: boolean;
+}
+
+// A parsed 3D colour lookup table from a .cube file. The table holds size³ RGB
+// triples with red changing fastest, then green, then blue.
+export interface CubeLut {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  table: Float32Array;
+}
+
+// A LUT the user imported and saved as a reusable filter.
+export interface LutPreset {
+  id: string;
+  name: string;
+  lut: CubeLut;
+  createdAt: number;
+}
+
+export interface LutSelection {
+  preset: LutPreset;
+  intensity: number; // 0..100
+}
+
+// Where a saved prompt preset is offered: the filter and adjustment panels, or the memory scene prompt.
+export type PromptPresetKind = 'filter' | 'adjustment' | 'scene';
+
+// A custom prompt the user saved for reuse.
+export interface PromptPreset {
+  id: string;
+  kind: PromptPresetKind;
+  name: string;
+  prompt: string;
+  thumbnail: File | null; // a small preview of the image it was saved from
+  order: number; // position in the user's own ordering
+  createdAt: number;
+}
+
+// A rectangle in image pixels.
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// An object or person the model found in the current image.
+export interface DetectedObject {
+  id: string;
+  label: string; // e.g. "red bicycle", "woman in a green coat"
+  box: BoundingBox;
+}
+
+// A product in the local catalog that can be placed into an image.
+export interface Product {
+  id: string;
+  name: string;
+  description: string; // what it is and what it's made of, to help the model render it
+  image: File; // a clean product shot, ideally on a plain background
+  thumbnail: File;
+  createdAt: number;
+}
+
+// A reference photo in the face library, stored with a small thumbnail for the library grid.
+export interface FacePhoto {
+  id: string;
+  image: File;
+  thumbnail: File;
+}
+
+// A person in the face library, with reference photos from different angles and in different lighting.
+export interface PersonProfile {
+  id: string;
+  name: string;
+  tags: string[];
+  photos: FacePhoto[];
+  primaryPhotoIndex: number; // the photo the model bases the pose on
+  createdAt: number;
+}
+
+// A person to include in a generated memory. The prompt refers to them as {name}.
+export interface MemorySubject {
+  name: string;
+  images: File[]; // primary photo first
+}
+
+// The parts of a memory description chosen in the guided scene builder. Any of them can be left empty.
+export interface SceneFields {
+  setting: string; // where it happens, e.g. "on a fishing boat in stormy seas"
+  era: string;
+  activity: string; // what the subjects are doing
+  mood: string;
+  shot: string; // camera framing, e.g. "mid-shot"
+  lighting: string;
+}
+
+// A person picked from the library on the start screen, before they become a MemorySubject.
+export interface SubjectSelection {
+  name: string;
+  profile: PersonProfile;
+}
+
+// One scene of a storyboard. The prompt refers to people as {name}, like a memory prompt.
+export interface StoryboardPanel {
+  id: string;
+  prompt: string;
+  caption: string;
+  image: File | null; // null until the panel has been generated
+}
+
+// An anecdote split into scenes, each illustrated with the same people in the same style.
+export interface Storyboard {
+  story: string;
+  style: string; // added to every panel's prompt so the panels look like one set
+  subjects: SubjectSelection[];
+  panels: StoryboardPanel[]; // in story order
+}
+
+// Why a generation (or another step) failed. The UI offers a different way out for each kind.
+export type GenerationError =
+  | { kind: 'blocked'; message: string; blockReason: string } // the prompt itself was refused
+  | { kind: 'safety-stopped'; message: string; finishReason: string } // generation started but was cut off
+  | { kind: 'no-image-with-text'; message: string; modelText: string } // the model answered in words only
+  | { kind: 'no-image'; message: string } // an empty response
+  | { kind: 'quota'; message: string } // rate limited or out of quota
+  | { kind: 'auth'; message: string } // missing or rejected API key
+  | { kind: 'network'; message: string } // unreachable, timed out or a server error
+  | { kind: 'invalid-input'; message: string } // something to fix before trying again
+  | { kind: 'budget'; message: string } // the user's hard spending limit was reached
+  | { kind: 'unknown'; message: string };
+
+export type GenerationErrorKind = GenerationError['kind'];
+
+// One call to an AI model, kept in memory for the debug inspector. Retries are recorded as separate calls.
+export interface AiCallRecord {
+  id: string;
+  startedAt: number;
+  operation: string; // the request's context, e.g. "edit" or "storyboard planning"
+  model: string;
+  prompt: string; // the full instruction text that was sent
+  images: { name: string; type: string; bytes: number }[]; // the input images, in order
+  latencyMs: number;
+  status: 'success' | 'failed' | 'cancelled';
+  finishReason: string | null;
+  promptFeedback: Record<string, unknown> | null; // as returned by the model, e.g. { blockReason: 'SAFETY' }
+  textParts: string[]; // any text the model returned
+  usage: TokenUsage | null; // from the response's usage metadata, when it has any
+  error: string | null;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// One call in the usage ledger, with what it is estimated to have cost.
+export interface UsageEntry {
+  at: number;
+  operation: string;
+  model: string;
+  status: AiCallRecord['status'];
+  usage: TokenUsage | null;
+  costUsd: number;
+}
+
+// A spending limit for the browser session. A soft budget warns once it's reached; a hard one blocks generating.
+export interface UsageBudget {
+  mode: 'off' | 'soft' | 'hard';
+  limitUsd: number;
+}
+
+export type ExportFormat = 'jpeg' | 'webp' | 'png' | 'avif';
+
+// Options chosen in the export dialog.
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number; // 1..100, ignored for PNG
+  longEdge: number | null; // resize so the longer side is at most this many pixels; null keeps the original size
+  convertToSrgb: boolean; // convert from the image's embedded colour profile instead of copying raw values
+  filenameTemplate: string; // e.g. "{name}-{step}", see formatExportFilename
+  includeMetadata: boolean; // write the original photo's capture date and description (JPEG only)
+  stripLocation: boolean; // leave GPS coordinates out even when metadata is included
+}